@@ -0,0 +1,96 @@
+import { parseRole, type Role } from "@/auth/roles";
+import { supabase } from "@/supabaseClient";
+
+/**
+ * Admin console requests. Everything goes through the `admin-profiles` edge function
+ * (supabase/functions/admin-profiles), which checks that the caller is an admin, runs the action
+ * with the service role and records it in `admin_audit_log`. The app never writes other users'
+ * profiles directly.
+ */
+
+export interface AdminProfile {
+  id: string;
+  email: string | null;
+  telegramId: number | null;
+  role: Role;
+  /** ISO timestamp of the last sign-in, null if the user never signed in. */
+  lastSignInAt: string | null;
+  /** ISO timestamp, set when access was revoked. */
+  revokedAt: string | null;
+}
+
+export type AdminAction =
+  | { action: "unbind_telegram"; profileId: string }
+  | { action: "revoke_access"; profileId: string }
+  | { action: "set_role"; profileId: string; role: Role }
+  | { action: "resend_invite"; profileId: string };
+
+interface ProfileRow {
+  id: string;
+  email: string | null;
+  telegram_id: number | null;
+  role: string;
+  last_sign_in_at: string | null;
+  revoked_at: string | null;
+}
+
+/**
+ * @throws If there is no Supabase session or the function fails, e.g. the caller isn't an
+ * admin.
+ */
+async function invokeAdminFunction<T>(
+  body: { action: "list" } | AdminAction,
+): Promise<T> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error("Cannot run admin action: no Supabase session.");
+  }
+
+  const response = await supabase.functions.invoke<T>("admin-profiles", {
+    body,
+    headers: { Authorization: `Bearer ${session.access_token}` },
+  });
+
+  // supabase-js types the error as any; when set, it is a FunctionsError.
+  if (response.error) throw response.error as Error;
+  return response.data as T;
+}
+
+/**
+ * Lists every profile with the sign-in details from Supabase Auth, most recent sign-in first.
+ * @throws If the request fails.
+ */
+export async function listProfiles(): Promise<AdminProfile[]> {
+  const { profiles } = await invokeAdminFunction<{ profiles: ProfileRow[] }>({
+    action: "list",
+  });
+  return profiles
+    .map((row) => ({
+      id: row.id,
+      email: row.email,
+      telegramId: row.telegram_id,
+      role: parseRole(row.role),
+      lastSignInAt: row.last_sign_in_at,
+      revokedAt: row.revoked_at,
+    }))
+    .sort((a, b) =>
+      (b.lastSignInAt ?? "").localeCompare(a.lastSignInAt ?? ""),
+    );
+}
+
+/**
+ * Runs an admin action on a profile:
+ * - `unbind_telegram` clears the bound Telegram id; the user binds again on the next login.
+ * - `revoke_access` sets `revoked_at`, unbinds Telegram and bans the user in Supabase Auth, so
+ *   their sessions lose data access right away and can't be refreshed.
+ * - `set_role` changes the role.
+ * - `resend_invite` emails a new login code and adds the address to the login allowlist. It
+ *   doesn't restore revoked access.
+ * @throws If the request fails.
+ */
+export async function runAdminAction(action: AdminAction): Promise<void> {
+  await invokeAdminFunction<unknown>(action);
+}
@@ -0,0 +1,181 @@
+import { FunctionsHttpError, type Session } from "@supabase/supabase-js";
+
+import { logger } from "@/logging/logger";
+import { supabase } from "@/supabaseClient";
+
+/**
+ * Email OTP login. Who may sign in is decided on the server: the `request-login-code` edge
+ * function (supabase/functions/request-login-code) checks the `login_allowlist` table before it
+ * sends the code. The client only loads the allowed domains to show them as a hint.
+ */
+
+export type LoginErrorCode =
+  // Returned by the `request-login-code` edge function.
+  | "invalid_email"
+  | "email_not_allowed"
+  | "rate_limited"
+  | "send_failed"
+  // Detected on the client.
+  | "invalid_code"
+  | "init_data_missing"
+  | "bind_failed"
+  | "network";
+
+export type LoginResult<T = void> =
+  | { ok: true; value: T }
+  | { ok: false; code: LoginErrorCode; detail?: string };
+
+export const LOGIN_ERROR_MESSAGES: Record<LoginErrorCode, string> = {
+  invalid_email: "Enter a valid email address.",
+  email_not_allowed:
+    "This email is not allowed to sign in. Use your company email or ask for an invite.",
+  rate_limited: "Too many codes requested. Wait a minute and try again.",
+  send_failed: "The login code could not be sent. Try again later.",
+  invalid_code: "The code is wrong or has expired.",
+  init_data_missing:
+    "Telegram data is missing. Open the app from the bot's menu button.",
+  bind_failed: "Your Telegram account could not be linked. Try again.",
+  network: "No connection to the server. Check your network and try again.",
+};
+
+const SERVER_CODES: LoginErrorCode[] = [
+  "invalid_email",
+  "email_not_allowed",
+  "rate_limited",
+  "send_failed",
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const log = logger("auth");
+
+export function isEmailAddress(email: string): boolean {
+  return EMAIL_PATTERN.test(email.trim());
+}
+
+/**
+ * Loads the domains anyone on them may sign in with. Individually invited addresses are not
+ * readable before sign-in.
+ * @returns Lower case domains, or an empty list if they can't be loaded.
+ */
+export async function loadAllowedDomains(): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("login_allowlist")
+    .select("domain")
+    .not("domain", "is", null)
+    .order("domain")
+    .returns<{ domain: string }[]>();
+
+  if (error) {
+    log.warn("Loading allowed login domains failed", { error });
+    return [];
+  }
+  return data.map(({ domain }) => domain);
+}
+
+/**
+ * @returns The lower case domain of the address, or undefined if it has none. Logged instead of
+ * the full address.
+ */
+export function emailDomain(email: string): string | undefined {
+  return email.trim().toLowerCase().split("@")[1];
+}
+
+/**
+ * @returns Whether the address is on one of the domains. Only a hint: invited addresses on other
+ * domains are allowed by the server too.
+ */
+export function matchesAllowedDomain(email: string, domains: string[]) {
+  const domain = emailDomain(email);
+  return domain !== undefined && domains.includes(domain);
+}
+
+/**
+ * Reads the error code from a failed edge function response (`{ code: "email_not_allowed" }`).
+ * @returns The code, or undefined if the request itself failed or the body has none.
+ */
+export async function functionErrorCode(error: unknown): Promise<unknown> {
+  if (!(error instanceof FunctionsHttpError)) return undefined;
+  try {
+    const body = (await (error.context as Response).json()) as {
+      code?: unknown;
+    };
+    return body.code;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Asks the `request-login-code` edge function to email a login code. The function checks the
+ * address against the allowlist first.
+ */
+export async function requestLoginCode(email: string): Promise<LoginResult> {
+  const address = email.trim().toLowerCase();
+  if (!isEmailAddress(address)) return { ok: false, code: "invalid_email" };
+
+  const response = await supabase.functions.invoke<unknown>(
+    "request-login-code",
+    { body: { email: address } },
+  );
+  // supabase-js types the error as any; when set, it is a FunctionsError.
+  const error = response.error as Error | null;
+  if (!error) return { ok: true, value: undefined };
+
+  const serverCode = await functionErrorCode(error);
+  const code =
+    SERVER_CODES.find((known) => known === serverCode) ??
+    (error instanceof FunctionsHttpError ? "send_failed" : "network");
+  return { ok: false, code, detail: error.message };
+}
+
+export async function verifyLoginCode(
+  email: string,
+  token: string,
+): Promise<LoginResult<Session>> {
+  const {
+    data: { session },
+    error,
+  } = await supabase.auth.verifyOtp({
+    email: email.trim().toLowerCase(),
+    token: token.trim(),
+    type: "email",
+  });
+
+  if (error || !session) {
+    return {
+      ok: false,
+      // Failed requests have no HTTP status.
+      code: error && !error.status ? "network" : "invalid_code",
+      detail: error?.message,
+    };
+  }
+  return { ok: true, value: session };
+}
+
+/**
+ * Binds the Telegram account to the profile through the `connect-telegram` edge function, which
+ * verifies the signature of the init data.
+ */
+export async function bindTelegramAccount(
+  session: Session,
+  initDataRaw: string | undefined,
+): Promise<LoginResult> {
+  if (!initDataRaw) return { ok: false, code: "init_data_missing" };
+
+  const response = await supabase.functions.invoke<unknown>(
+    "connect-telegram",
+    {
+      body: { initData: initDataRaw },
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    },
+  );
+  // supabase-js types the error as any; when set, it is a FunctionsError.
+  const error = response.error as Error | null;
+
+  if (error) {
+    return { ok: false, code: "bind_failed", detail: error.message };
+  }
+  log.info("Telegram ID bound", { response: response.data });
+  return { ok: true, value: undefined };
+}
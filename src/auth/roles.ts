@@ -0,0 +1,73 @@
+/**
+ * Role-based access control. The role is stored on the `profiles` row and loaded together with
+ * the Telegram binding check in `App`. This only decides what the app shows: the server enforces
+ * the rules through RLS policies (deleting scans, recording check-ins) and edge functions
+ * (sending exports, managing profiles).
+ */
+
+export type Role = "admin" | "staff" | "viewer";
+
+export const ROLES: Role[] = ["admin", "staff", "viewer"];
+
+/**
+ * Actions that depend on the role, with the roles allowed to perform them.
+ */
+const PERMISSIONS = {
+  /** Check attendees in at events. */
+  checkin: ["admin", "staff"],
+  /** Delete scans from the history. */
+  "history.delete": ["admin", "staff"],
+  /** Export the scan history. */
+  "history.export": ["admin", "staff"],
+  /** Open the diagnostics report. */
+  diagnostics: ["admin", "staff"],
+  /** Manage profiles, roles and invites. */
+  "profiles.manage": ["admin"],
+} satisfies Record<string, Role[]>;
+
+export type Action = keyof typeof PERMISSIONS;
+
+const listeners = new Set<() => void>();
+
+let current: Role | null = null;
+
+/**
+ * @returns The role, or `viewer` (the least privileged one) for a missing or unknown value.
+ */
+export function parseRole(value: unknown): Role {
+  return ROLES.find((role) => role === value) ?? "viewer";
+}
+
+export function can(role: Role | null, action: Action): boolean {
+  return role !== null && (PERMISSIONS[action] as Role[]).includes(role);
+}
+
+/**
+ * @returns Whether the role may see something restricted to `roles`. No restriction means
+ * every signed-in user.
+ */
+export function hasRole(role: Role | null, roles: Role[] | undefined) {
+  return role !== null && (!roles || roles.includes(role));
+}
+
+/**
+ * @returns The signed-in user's role, or null before access was granted.
+ */
+export function getRole(): Role | null {
+  return current;
+}
+
+export function setRole(role: Role | null): void {
+  if (role === current) return;
+  current = role;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Calls the listener when the role changes.
+ * @returns A function removing the listener.
+ */
+export function subscribeToRole(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,73 @@
+/**
+ * Sign-out. Data cached for the signed-in profile (queued scans and check-ins, event caches,
+ * duplicate detection) is cleared, so the next user on the device starts clean. Settings and
+ * recent scans belong to the Telegram account (CloudStorage) and stay stored; only the copy in
+ * memory is dropped.
+ */
+
+import { setRole } from "@/auth/roles";
+import { clearCheckInCache, syncCheckIns } from "@/checkin/store";
+import { logger } from "@/logging/logger";
+import { clearScanDedupe } from "@/scan/dedupe";
+import { clearScanQueue, retryQueuedScans } from "@/scan/queue";
+import { resetSettingsCache } from "@/settings/store";
+import { supabase } from "@/supabaseClient";
+
+// Set by signOut() until the next successful login, so the app doesn't sign the user straight
+// back in from the Telegram init data.
+const SIGNED_OUT_KEY = "auth:signed-out";
+
+const log = logger("auth");
+
+/**
+ * @returns Whether the user signed out on this device and hasn't logged in since.
+ */
+export function isSignedOut(): boolean {
+  try {
+    return localStorage.getItem(SIGNED_OUT_KEY) !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Ends the signed-out state after a successful login.
+ */
+export function clearSignedOut(): void {
+  try {
+    localStorage.removeItem(SIGNED_OUT_KEY);
+  } catch {
+    // Storage unavailable: the flag was never stored.
+  }
+}
+
+/**
+ * Uploads what is still queued, clears the cached data and signs out of Supabase on this
+ * device. Listeners of `onAuthStateChange` get `SIGNED_OUT`.
+ * @throws If signing out of Supabase fails. The caches are cleared anyway.
+ */
+export async function signOut(): Promise<void> {
+  log.info("Signing out");
+
+  // Last chance to upload with this session. Whatever fails is dropped with the caches.
+  await Promise.allSettled([retryQueuedScans(), syncCheckIns()]);
+
+  try {
+    await clearScanQueue();
+  } catch (e) {
+    log.error("Clearing the scan queue failed", { error: e });
+  }
+  clearCheckInCache();
+  clearScanDedupe();
+  resetSettingsCache();
+  setRole(null);
+
+  try {
+    localStorage.setItem(SIGNED_OUT_KEY, new Date().toISOString());
+  } catch {
+    // Storage unavailable: the app may sign the user back in from init data.
+  }
+
+  const { error } = await supabase.auth.signOut({ scope: "local" });
+  if (error) throw error;
+}
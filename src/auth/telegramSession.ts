@@ -0,0 +1,138 @@
+/**
+ * Silent re-login for profiles already bound to a Telegram account. The `telegram-login` edge
+ * function (supabase/functions/telegram-login) validates the init data signature with the bot
+ * token, looks up the profile bound to the Telegram user and returns a session for it, so an
+ * expired session doesn't mean another email code.
+ *
+ * Responses of the function:
+ * - 200 `{ access_token, refresh_token }`
+ * - 401 `{ code: "invalid_init_data" }` for a bad signature or init data that is too old
+ * - 403 `{ code: "revoked" }` when the bound profile's access was revoked
+ * - 404 `{ code: "not_bound" }` when no profile is bound to the Telegram user
+ * - 502 `{ code: "login_failed" }` when the server can't create the session
+ */
+
+import type { Session } from "@supabase/supabase-js";
+
+import { functionErrorCode } from "@/auth/login";
+import { logger } from "@/logging/logger";
+import { supabase } from "@/supabaseClient";
+
+export type TelegramSignIn =
+  | { status: "signed_in"; session: Session }
+  | { status: "not_bound" }
+  | { status: "rejected" }
+  | { status: "failed"; error: unknown };
+
+const log = logger("auth");
+
+async function invokeTelegramLogin(
+  initDataRaw: string,
+): Promise<TelegramSignIn> {
+  const response = await supabase.functions.invoke<{
+    access_token: string;
+    refresh_token: string;
+  }>("telegram-login", { body: { initData: initDataRaw } });
+  // supabase-js types the error as any; when set, it is a FunctionsError.
+  const error = response.error as Error | null;
+
+  if (error) {
+    const code = await functionErrorCode(error);
+    if (code === "not_bound") return { status: "not_bound" };
+    if (code === "invalid_init_data" || code === "revoked") {
+      return { status: "rejected" };
+    }
+    return { status: "failed", error };
+  }
+  const data = response.data;
+  if (!data) {
+    return {
+      status: "failed",
+      error: new Error("Empty telegram-login response."),
+    };
+  }
+
+  const { data: auth, error: sessionError } = await supabase.auth.setSession(
+    data,
+  );
+  if (sessionError || !auth.session) {
+    return { status: "failed", error: sessionError };
+  }
+  return { status: "signed_in", session: auth.session };
+}
+
+/**
+ * Dev stand-in for the `telegram-login` function. The mocked init data (see mockEnv.ts) has no
+ * valid signature, so instead of validating it, it signs in the dev user from
+ * `VITE_DEV_LOGIN_EMAIL` and `VITE_DEV_LOGIN_PASSWORD` and applies the same binding check as the
+ * function. Without these variables the real function is used, e.g. `supabase functions serve`.
+ * Only reachable in dev builds: production bundles never contain the credentials.
+ */
+async function devTelegramLogin(
+  initDataRaw: string,
+  email: string,
+  password: string,
+): Promise<TelegramSignIn> {
+  let telegramId: unknown;
+  try {
+    const user = new URLSearchParams(initDataRaw).get("user");
+    telegramId = user ? (JSON.parse(user) as { id?: unknown }).id : undefined;
+  } catch {
+    return { status: "rejected" };
+  }
+  if (!telegramId) return { status: "rejected" };
+
+  const { data, error } = await supabase.auth.signInWithPassword({
+    email,
+    password,
+  });
+  if (error) return { status: "failed", error };
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("telegram_id")
+    .eq("id", data.user.id)
+    .single();
+
+  if (profileError || profile.telegram_id != telegramId) {
+    await supabase.auth.signOut();
+    return profileError
+      ? { status: "failed", error: profileError }
+      : { status: "not_bound" };
+  }
+  return { status: "signed_in", session: data.session };
+}
+
+/**
+ * Signs in with the Telegram init data. Never throws: failures are returned and logged, and the
+ * caller falls back to the email login.
+ */
+export async function signInWithTelegram(
+  initDataRaw: string,
+): Promise<TelegramSignIn> {
+  let result: TelegramSignIn | undefined;
+  try {
+    // The env reads stay inside the DEV check, so Vite drops them from production builds.
+    if (import.meta.env.DEV) {
+      const devEmail = import.meta.env.VITE_DEV_LOGIN_EMAIL as
+        | string
+        | undefined;
+      const devPassword = import.meta.env.VITE_DEV_LOGIN_PASSWORD as
+        | string
+        | undefined;
+      if (devEmail && devPassword) {
+        result = await devTelegramLogin(initDataRaw, devEmail, devPassword);
+      }
+    }
+    result ??= await invokeTelegramLogin(initDataRaw);
+  } catch (e) {
+    result = { status: "failed", error: e };
+  }
+
+  if (result.status === "failed") {
+    log.error("Telegram sign-in failed", { error: result.error });
+  } else {
+    log.info("Telegram sign-in", { status: result.status });
+  }
+  return result;
+}
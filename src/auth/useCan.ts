@@ -0,0 +1,24 @@
+import { useSyncExternalStore } from "react";
+
+import {
+  can,
+  getRole,
+  subscribeToRole,
+  type Action,
+  type Role,
+} from "@/auth/roles";
+
+/**
+ * @returns The signed-in user's role, or null before access was granted.
+ */
+export function useRole(): Role | null {
+  return useSyncExternalStore(subscribeToRole, getRole);
+}
+
+/**
+ * @returns Whether the signed-in user's role allows the action. Re-renders when the role
+ * changes.
+ */
+export function useCan(action: Action): boolean {
+  return can(useRole(), action);
+}
@@ -0,0 +1,195 @@
+/**
+ * Ed25519 signature verification (RFC 8032). Uses WebCrypto where the browser supports
+ * Ed25519 and falls back to a BigInt implementation on older webviews. Only verification is
+ * needed on the device: tickets are signed by the organizer.
+ */
+
+const P = 2n ** 255n - 19n;
+const L = 2n ** 252n + 27742317777372353535851937790883648493n;
+
+function mod(a: bigint, m = P): bigint {
+  const r = a % m;
+  return r >= 0n ? r : r + m;
+}
+
+function pow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  let b = mod(base);
+  for (let e = exponent; e > 0n; e >>= 1n) {
+    if (e & 1n) result = mod(result * b);
+    b = mod(b * b);
+  }
+  return result;
+}
+
+function invert(a: bigint): bigint {
+  return pow(a, P - 2n);
+}
+
+const D = mod(-121665n * invert(121666n));
+const D2 = mod(2n * D);
+const SQRT_M1 = pow(2n, (P - 1n) / 4n);
+
+/** Extended coordinates: x = X/Z, y = Y/Z, x * y = T/Z. */
+interface Point {
+  X: bigint;
+  Y: bigint;
+  Z: bigint;
+  T: bigint;
+}
+
+const BASE: Point = (() => {
+  const x = 15112221349535400772501151409588531511454012693041857206046113283949847762202n;
+  const y = 46316835694926478169428394003475163141307993866256225615783033603165251855960n;
+  return { X: x, Y: y, Z: 1n, T: mod(x * y) };
+})();
+
+const IDENTITY: Point = { X: 0n, Y: 1n, Z: 1n, T: 0n };
+
+// Complete addition for a = -1 twisted Edwards curves, also valid for doubling.
+function add(p: Point, q: Point): Point {
+  const a = mod((p.Y - p.X) * (q.Y - q.X));
+  const b = mod((p.Y + p.X) * (q.Y + q.X));
+  const c = mod(p.T * D2 * q.T);
+  const d = mod(2n * p.Z * q.Z);
+  const e = b - a;
+  const f = d - c;
+  const g = d + c;
+  const h = b + a;
+  return {
+    X: mod(e * f),
+    Y: mod(g * h),
+    Z: mod(f * g),
+    T: mod(e * h),
+  };
+}
+
+function negate(p: Point): Point {
+  return { X: mod(-p.X), Y: p.Y, Z: p.Z, T: mod(-p.T) };
+}
+
+function multiply(p: Point, scalar: bigint): Point {
+  let result = IDENTITY;
+  let addend = p;
+  for (let k = scalar; k > 0n; k >>= 1n) {
+    if (k & 1n) result = add(result, addend);
+    addend = add(addend, addend);
+  }
+  return result;
+}
+
+function bytesToNumberLE(bytes: Uint8Array): bigint {
+  let result = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    result = (result << 8n) | BigInt(bytes[i]);
+  }
+  return result;
+}
+
+function encodePoint(p: Point): Uint8Array {
+  const zInv = invert(p.Z);
+  const x = mod(p.X * zInv);
+  let y = mod(p.Y * zInv);
+  const bytes = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    bytes[i] = Number(y & 0xffn);
+    y >>= 8n;
+  }
+  bytes[31] |= Number(x & 1n) << 7;
+  return bytes;
+}
+
+/**
+ * @returns The point, or null if the bytes are not a valid encoding.
+ */
+function decodePoint(bytes: Uint8Array): Point | null {
+  if (bytes.length !== 32) return null;
+  const normed = bytes.slice();
+  const sign = (normed[31] & 0x80) !== 0;
+  normed[31] &= 0x7f;
+  const y = bytesToNumberLE(normed);
+  if (y >= P) return null;
+
+  // x^2 = (y^2 - 1) / (d y^2 + 1)
+  const y2 = mod(y * y);
+  const u = mod(y2 - 1n);
+  const v = mod(D * y2 + 1n);
+  const v3 = mod(v * v * v);
+  let x = mod(u * v3 * pow(u * v3 * v3 * v, (P - 5n) / 8n));
+  const vx2 = mod(v * x * x);
+  if (vx2 === mod(-u)) x = mod(x * SQRT_M1);
+  else if (vx2 !== u) return null;
+
+  if (x === 0n && sign) return null;
+  if (((x & 1n) === 1n) !== sign) x = mod(-x);
+  return { X: x, Y: y, Z: 1n, T: mod(x * y) };
+}
+
+async function verifyFallback(
+  publicKey: Uint8Array,
+  message: Uint8Array,
+  signature: Uint8Array,
+): Promise<boolean> {
+  if (signature.length !== 64) return false;
+  const a = decodePoint(publicKey);
+  const r = decodePoint(signature.subarray(0, 32));
+  const s = bytesToNumberLE(signature.subarray(32));
+  if (!a || !r || s >= L) return false;
+
+  const hashInput = new Uint8Array(64 + message.length);
+  hashInput.set(signature.subarray(0, 32), 0);
+  hashInput.set(publicKey, 32);
+  hashInput.set(message, 64);
+  const k = mod(
+    bytesToNumberLE(new Uint8Array(await crypto.subtle.digest("SHA-512", hashInput))),
+    L,
+  );
+
+  // [S]B - [k]A must equal R.
+  const expected = encodePoint(add(multiply(BASE, s), negate(multiply(a, k))));
+  return expected.every((byte, i) => byte === signature[i]);
+}
+
+let nativeSupport: Promise<boolean> | null = null;
+
+function supportsNativeEd25519(
+  publicKey: Uint8Array<ArrayBuffer>,
+): Promise<boolean> {
+  nativeSupport ??= crypto.subtle
+    .importKey("raw", publicKey, { name: "Ed25519" }, false, ["verify"])
+    .then(
+      () => true,
+      (e) => !(e instanceof DOMException && e.name === "NotSupportedError"),
+    );
+  return nativeSupport;
+}
+
+/**
+ * Verifies an Ed25519 signature.
+ * @param publicKey - 32 byte raw public key.
+ * @returns False for invalid signatures as well as malformed keys or signatures.
+ */
+export async function verifyEd25519(
+  publicKey: Uint8Array<ArrayBuffer>,
+  message: Uint8Array<ArrayBuffer>,
+  signature: Uint8Array<ArrayBuffer>,
+): Promise<boolean> {
+  if (publicKey.length !== 32 || signature.length !== 64) return false;
+
+  if (await supportsNativeEd25519(publicKey)) {
+    try {
+      const key = await crypto.subtle.importKey(
+        "raw",
+        publicKey,
+        { name: "Ed25519" },
+        false,
+        ["verify"],
+      );
+      return await crypto.subtle.verify({ name: "Ed25519" }, key, signature, message);
+    } catch {
+      // Malformed keys are rejected by importKey().
+      return false;
+    }
+  }
+  return verifyFallback(publicKey, message, signature);
+}
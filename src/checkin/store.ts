@@ -0,0 +1,242 @@
+import { supabase } from "@/supabaseClient";
+
+/**
+ * Check-in data with an offline cache. Every successful fetch is written to localStorage, so
+ * the door keeps working on the cached key, ticket list and check-ins when the network drops.
+ * Check-ins are queued locally and uploaded by {@link syncCheckIns}.
+ */
+
+/**
+ * A row of the `events` table.
+ */
+export interface CheckInEvent {
+  id: string;
+  name: string;
+  starts_at: string | null;
+  ends_at: string | null;
+  /** Base64 encoded raw Ed25519 public key. */
+  ticket_public_key: string;
+}
+
+/**
+ * A row of the `event_tickets` table.
+ */
+export interface EventTicket {
+  attendee_id: string;
+  attendee_name: string | null;
+  revoked: boolean;
+}
+
+export interface CheckIn {
+  /** Generated on the device; makes uploads idempotent. */
+  client_id: string;
+  event_id: string;
+  attendee_id: string;
+  checked_in_at: string;
+}
+
+export interface EventCache {
+  event: CheckInEvent;
+  tickets: EventTicket[];
+  /** Check-ins known to the server plus the ones recorded on this device. */
+  checkIns: CheckIn[];
+  fetchedAt: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  /** Check-ins the server rejected because another device checked the attendee in first. */
+  conflicts: CheckIn[];
+  /** Check-ins that could not be uploaded and stay queued. */
+  failed: number;
+}
+
+const EVENTS_KEY = "checkin:events";
+const PENDING_KEY = "checkin:pending";
+
+function eventKey(eventId: string): string {
+  return `checkin:event:${eventId}`;
+}
+
+function readJson<T>(key: string): T | null {
+  try {
+    const value = localStorage.getItem(key);
+    return value === null ? null : (JSON.parse(value) as T);
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+/**
+ * Lists events, falling back to the cached list when offline.
+ */
+export async function listEvents(): Promise<{
+  events: CheckInEvent[];
+  offline: boolean;
+}> {
+  const { data, error } = await supabase
+    .from("events")
+    .select("id, name, starts_at, ends_at, ticket_public_key")
+    .order("starts_at", { ascending: false, nullsFirst: false })
+    .returns<CheckInEvent[]>();
+
+  if (error) {
+    const cached = readJson<CheckInEvent[]>(EVENTS_KEY);
+    if (cached) return { events: cached, offline: true };
+    throw error;
+  }
+
+  writeJson(EVENTS_KEY, data);
+  return { events: data, offline: false };
+}
+
+export function pendingCheckIns(eventId?: string): CheckIn[] {
+  const pending = readJson<CheckIn[]>(PENDING_KEY) ?? [];
+  return eventId ? pending.filter((c) => c.event_id === eventId) : pending;
+}
+
+/**
+ * Fetches an event's key, tickets and check-ins and caches them for offline use.
+ * @returns The fresh data, or the cached data with `offline` set if the fetch failed.
+ * @throws If the fetch failed and nothing is cached for the event.
+ */
+export async function loadEvent(
+  eventId: string,
+): Promise<{ cache: EventCache; offline: boolean }> {
+  const [event, tickets, checkIns] = await Promise.all([
+    supabase
+      .from("events")
+      .select("id, name, starts_at, ends_at, ticket_public_key")
+      .eq("id", eventId)
+      .single<CheckInEvent>(),
+    supabase
+      .from("event_tickets")
+      .select("attendee_id, attendee_name, revoked")
+      .eq("event_id", eventId)
+      .returns<EventTicket[]>(),
+    supabase
+      .from("event_checkins")
+      .select("client_id, event_id, attendee_id, checked_in_at")
+      .eq("event_id", eventId)
+      .returns<CheckIn[]>(),
+  ]);
+
+  if (!event.data || !tickets.data || !checkIns.data) {
+    const cached = readJson<EventCache>(eventKey(eventId));
+    if (cached) return { cache: cached, offline: true };
+    throw (
+      event.error ??
+      tickets.error ??
+      checkIns.error ??
+      new Error("Loading the event failed.")
+    );
+  }
+
+  // Keep local check-ins that have not reached the server yet.
+  const uploaded = new Set(checkIns.data.map((c) => c.client_id));
+  const cache: EventCache = {
+    event: event.data,
+    tickets: tickets.data,
+    checkIns: [
+      ...checkIns.data,
+      ...pendingCheckIns(eventId).filter((c) => !uploaded.has(c.client_id)),
+    ],
+    fetchedAt: new Date().toISOString(),
+  };
+  writeJson(eventKey(eventId), cache);
+  return { cache, offline: false };
+}
+
+/**
+ * @returns The attendee's earlier check-in, if any.
+ */
+export function findCheckIn(
+  cache: EventCache,
+  attendeeId: string,
+): CheckIn | undefined {
+  return cache.checkIns.find((c) => c.attendee_id === attendeeId);
+}
+
+export function findTicket(
+  cache: EventCache,
+  attendeeId: string,
+): EventTicket | undefined {
+  return cache.tickets.find((t) => t.attendee_id === attendeeId);
+}
+
+/**
+ * Records a check-in on the device and queues it for upload.
+ * @returns The updated cache.
+ */
+export function recordCheckIn(cache: EventCache, attendeeId: string): EventCache {
+  const checkIn: CheckIn = {
+    client_id: crypto.randomUUID(),
+    event_id: cache.event.id,
+    attendee_id: attendeeId,
+    checked_in_at: new Date().toISOString(),
+  };
+
+  writeJson(PENDING_KEY, [...pendingCheckIns(), checkIn]);
+  const updated = { ...cache, checkIns: [...cache.checkIns, checkIn] };
+  writeJson(eventKey(cache.event.id), updated);
+  return updated;
+}
+
+/**
+ * Removes the cached events, tickets and queued check-ins, e.g. on sign-out.
+ */
+export function clearCheckInCache(): void {
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith("checkin:"))
+    .forEach((key) => localStorage.removeItem(key));
+}
+
+/**
+ * Uploads queued check-ins. Uploads are idempotent (keyed by `client_id`), so a check-in that
+ * was stored but whose response was lost is not duplicated on retry.
+ * @throws If there is no Supabase session.
+ */
+export async function syncCheckIns(): Promise<SyncResult> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error("Cannot sync check-ins: no Supabase session.");
+  }
+
+  const result: SyncResult = { synced: 0, conflicts: [], failed: 0 };
+  const queued = pendingCheckIns();
+  const done = new Set<string>();
+
+  for (const checkIn of queued) {
+    const { error } = await supabase
+      .from("event_checkins")
+      .upsert(
+        { ...checkIn, checked_in_by: session.user.id },
+        { onConflict: "client_id", ignoreDuplicates: true },
+      );
+
+    if (!error) {
+      result.synced++;
+      done.add(checkIn.client_id);
+    } else if (error.code === "23505") {
+      // unique (event_id, attendee_id): another device checked the attendee in first.
+      result.conflicts.push(checkIn);
+      done.add(checkIn.client_id);
+    } else {
+      result.failed++;
+    }
+  }
+
+  // Re-read the queue: check-ins may have been recorded while uploading.
+  writeJson(
+    PENDING_KEY,
+    pendingCheckIns().filter((c) => !done.has(c.client_id)),
+  );
+  return result;
+}
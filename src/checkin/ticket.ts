@@ -0,0 +1,102 @@
+import { verifyEd25519 } from "@/checkin/ed25519";
+
+/**
+ * Signed event tickets.
+ *
+ * A ticket QR code holds `TKT1.<payload>.<signature>`, where `payload` is the base64url encoded
+ * JSON `{"e": eventId, "a": attendeeId, "x": expiresAt}` (`x` in Unix seconds) and `signature`
+ * is the base64url encoded Ed25519 signature of the ASCII string `TKT1.<payload>` made with
+ * the event's private key. Devices only hold the event's public key, so they can verify
+ * tickets offline but cannot issue them.
+ */
+
+const TICKET_PREFIX = "TKT1.";
+
+export interface Ticket {
+  eventId: string;
+  attendeeId: string;
+  /** Unix timestamp (seconds). */
+  expiresAt: number;
+}
+
+interface ParsedTicket {
+  ticket: Ticket;
+  signedPart: Uint8Array<ArrayBuffer>;
+  signature: Uint8Array<ArrayBuffer>;
+}
+
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+export function isTicketToken(raw: string): boolean {
+  return raw.startsWith(TICKET_PREFIX);
+}
+
+/**
+ * @returns The ticket with the parts needed to verify it, or null if the token is malformed.
+ */
+function parseTicket(raw: string): ParsedTicket | null {
+  if (!isTicketToken(raw)) return null;
+  const parts = raw.slice(TICKET_PREFIX.length).split(".");
+  if (parts.length !== 2) return null;
+
+  try {
+    const json: unknown = JSON.parse(
+      new TextDecoder().decode(base64UrlDecode(parts[0])),
+    );
+    if (typeof json !== "object" || json === null) return null;
+    const { e, a, x } = json as Record<string, unknown>;
+    if (typeof e !== "string" || typeof a !== "string" || typeof x !== "number") {
+      return null;
+    }
+
+    return {
+      ticket: { eventId: e, attendeeId: a, expiresAt: x },
+      signedPart: new TextEncoder().encode(TICKET_PREFIX + parts[0]),
+      signature: base64UrlDecode(parts[1]),
+    };
+  } catch {
+    // Invalid base64 or JSON.
+    return null;
+  }
+}
+
+export type TicketVerdict =
+  /** Not a ticket token at all. */
+  | { status: "malformed" }
+  /** The signature does not match the event key. */
+  | { status: "forged" }
+  /**
+   * Issued for another event. Checked before the signature, which only that event's key can
+   * verify, so the ticket is unverified.
+   */
+  | { status: "wrong_event"; ticket: Ticket }
+  | { status: "expired"; ticket: Ticket }
+  | { status: "valid"; ticket: Ticket };
+
+/**
+ * Checks a scanned token's event, signature and expiry. Duplicate and revocation checks need
+ * the event's check-in state and are done by the caller.
+ * @param publicKey - the event's raw Ed25519 public key.
+ * @param now - current time in milliseconds.
+ */
+export async function verifyTicket(
+  raw: string,
+  eventId: string,
+  publicKey: Uint8Array<ArrayBuffer>,
+  now = Date.now(),
+): Promise<TicketVerdict> {
+  const parsed = parseTicket(raw.trim());
+  if (!parsed) return { status: "malformed" };
+
+  const { ticket, signedPart, signature } = parsed;
+  if (ticket.eventId !== eventId) return { status: "wrong_event", ticket };
+  if (!(await verifyEd25519(publicKey, signedPart, signature))) {
+    return { status: "forged" };
+  }
+  if (ticket.expiresAt * 1000 <= now) return { status: "expired", ticket };
+  return { status: "valid", ticket };
+}
@@ -1,16 +1,30 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Navigate, Route, Routes, HashRouter } from "react-router-dom";
 import {
   useLaunchParams,
   useSignal,
   miniApp,
   initData,
+  settingsButton,
 } from "@tma.js/sdk-react";
 import { AppRoot, Placeholder, Spinner } from "@telegram-apps/telegram-ui";
 
+import { parseRole, setRole } from "@/auth/roles";
+import { clearSignedOut, isSignedOut } from "@/auth/session";
+import { signInWithTelegram } from "@/auth/telegramSession";
+import { RouteGuard } from "@/navigation/RouteGuard";
 import { routes } from "@/navigation/routes.tsx";
 import { supabase } from "@/supabaseClient";
 import { LoginScreen } from "@/components/LoginScreen";
+import { logger } from "@/logging/logger";
+import { startScanQueue } from "@/scan/queue";
+import { pruneRecentScans, startSettingsSync } from "@/settings/store";
+import { useSettings } from "@/settings/useSettings";
+
+const log = logger("auth");
+const supabaseLog = logger("supabase");
+
+const DAY = 24 * 60 * 60 * 1000;
 
 export function App() {
   const lp = useLaunchParams();
@@ -21,10 +35,90 @@ export function App() {
   // State for permission checking
   const [isChecking, setIsChecking] = useState(true);
   const [hasAccess, setHasAccess] = useState(false);
+  // The Supabase and Telegram users access was granted for. Later auth and init data changes
+  // are compared against them.
+  const grantedRef = useRef<{ userId: string; telegramId: number } | null>(
+    null,
+  );
+  // Incremented by every permission check, so an older check can't overwrite a newer result.
+  const checkIdRef = useRef(0);
+
+  // The role is set when access is granted and only applies while it lasts.
+  useEffect(() => {
+    if (!hasAccess) {
+      setRole(null);
+      grantedRef.current = null;
+    }
+  }, [hasAccess]);
+
+  // Follows the session after access was granted. A session that ends (sign-out, or a refresh
+  // token the server rejected, which supabase-js reports as SIGNED_OUT) returns to the login
+  // screen; another user signing in (e.g. in another tab) re-runs the binding check.
+  useEffect(() => {
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      const granted = grantedRef.current;
+      // Before access is granted, LoginScreen and checkPermission() handle the session.
+      if (!granted) return;
+
+      if (!session) {
+        log.warn("Supabase session ended, showing login", { event });
+        setHasAccess(false);
+      } else if (session.user.id !== granted.userId) {
+        log.warn("Supabase user changed, checking the binding again", {
+          event,
+          userId: session.user.id,
+        });
+        setHasAccess(false);
+        // Supabase calls inside this callback would wait for the auth lock it holds.
+        window.setTimeout(() => void checkPermission(), 0);
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Settings live in Telegram CloudStorage and don't depend on the Supabase session.
+  useEffect(() => startSettingsSync(), []);
+
+  // Upload scans recorded offline while the user has access.
+  useEffect(() => (hasAccess ? startScanQueue() : undefined), [hasAccess]);
 
+  // Telegram's settings button (in the Mini App menu) opens the settings page.
   useEffect(() => {
+    if (!hasAccess || !settingsButton.onClick.isAvailable()) return;
+    settingsButton.show();
+    const off = settingsButton.onClick(() => {
+      window.location.hash = "#/settings";
+    });
+    return () => {
+      off();
+      settingsButton.hide();
+    };
+  }, [hasAccess]);
+
+  // Drop recent scans older than the history retention. The server history is only deleted
+  // when the user confirms it on the settings page.
+  const { historyRetentionDays } = useSettings();
+  useEffect(() => {
+    if (!historyRetentionDays) return;
+    pruneRecentScans(new Date(Date.now() - historyRetentionDays * DAY));
+  }, [historyRetentionDays]);
+
+  useEffect(() => {
+    // Access granted for another Telegram account must not carry over while it is checked.
+    const granted = grantedRef.current;
+    if (granted && granted.telegramId !== tgUser?.id) {
+      log.warn("Telegram user changed, checking the binding again", {
+        telegramId: tgUser?.id ?? null,
+        previousTelegramId: granted.telegramId,
+      });
+      setHasAccess(false);
+    }
+
     // Defer permission check until Telegram initData is ready.
     if (!tgUser?.id) {
+      log.info("No Telegram user in initData, showing login");
       setHasAccess(false);
       setIsChecking(false);
       return;
@@ -33,14 +127,34 @@ export function App() {
   }, [tgUser?.id]);
 
   async function checkPermission() {
+    const checkId = ++checkIdRef.current;
+    const isStale = () => checkId !== checkIdRef.current;
     setIsChecking(true);
 
     // 1. Get current Supabase Session
     const {
-      data: { session },
+      data: { session: storedSession },
+      error: sessionError,
     } = await supabase.auth.getSession();
+    let session = storedSession;
+    if (isStale()) return;
+
+    if (sessionError) {
+      supabaseLog.error("getSession() failed", { error: sessionError });
+    }
+
+    // Already bound users get a new session from their Telegram init data instead of another
+    // email code, unless they signed out on purpose.
+    const initDataRaw = initData.raw();
+    if (!session && initDataRaw && !isSignedOut()) {
+      log.info("No Supabase session, trying Telegram sign-in");
+      const result = await signInWithTelegram(initDataRaw);
+      if (isStale()) return;
+      if (result.status === "signed_in") session = result.session;
+    }
 
     if (!session) {
+      log.info("No Supabase session, showing login");
       setHasAccess(false);
       setIsChecking(false);
       return;
@@ -52,21 +166,46 @@ export function App() {
     const currentTgId = initData.state()?.user?.id;
 
     if (currentTgId) {
-      const { data: profile } = await supabase
+      const { data: profile, error: profileError } = await supabase
         .from("profiles")
-        .select("telegram_id")
+        .select("telegram_id, role, revoked_at")
         .eq("id", session.user.id)
         .single();
+      if (isStale()) return;
+
+      if (profileError) {
+        supabaseLog.error("Loading profile failed", {
+          userId: session.user.id,
+          error: profileError,
+        });
+      }
 
       // Grant access only if the DB record matches the current Telegram User
-      if (profile && profile.telegram_id == currentTgId) {
+      if (profile?.revoked_at) {
+        log.warn("Access revoked by an admin", { userId: session.user.id });
+        setHasAccess(false);
+      } else if (profile && profile.telegram_id == currentTgId) {
+        const role = parseRole(profile.role);
+        log.info("Access granted", { userId: session.user.id, role });
+        grantedRef.current = {
+          userId: session.user.id,
+          telegramId: currentTgId,
+        };
+        clearSignedOut();
+        setRole(role);
         setHasAccess(true);
       } else {
         // ID mismatch or no profile found -> force re-login/re-bind
+        log.warn("Profile is not bound to the current Telegram user", {
+          userId: session.user.id,
+          telegramId: currentTgId,
+          profileTelegramId: profile?.telegram_id ?? null,
+        });
         setHasAccess(false);
       }
     } else {
       // Fallback if running outside of Telegram or initData is missing
+      log.warn("No Telegram user in initData, access denied");
       setHasAccess(false);
     }
 
@@ -95,8 +234,16 @@ export function App() {
         // 2. Main App (Authorized)
         <HashRouter>
           <Routes>
-            {routes.map((route) => (
-              <Route key={route.path} {...route} />
+            {routes.map(({ path, Component, roles }) => (
+              <Route
+                key={path}
+                path={path}
+                element={
+                  <RouteGuard path={path} roles={roles}>
+                    <Component />
+                  </RouteGuard>
+                }
+              />
             ))}
             <Route path="*" element={<Navigate to="/" />} />
           </Routes>
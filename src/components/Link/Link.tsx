@@ -1,8 +1,8 @@
-import { openLink } from '@tma.js/sdk-react';
 import { type FC, type MouseEventHandler, useCallback } from 'react';
 import { Link as RouterLink, type LinkProps } from 'react-router-dom';
 
 import { classNames } from '@/css/classnames.ts';
+import { openUrl } from '@/helpers/telegramLinks.ts';
 
 import './Link.css';
 
@@ -16,7 +16,7 @@ export const Link: FC<LinkProps> = ({
     propsOnClick?.(e);
 
     // Compute if target path is external. In this case we would like to open
-    // link using TMA method.
+    // link using TMA method (Telegram-native links stay inside Telegram).
     let path: string;
     if (typeof to === 'string') {
       path = to;
@@ -32,7 +32,7 @@ export const Link: FC<LinkProps> = ({
 
     if (isExternal) {
       e.preventDefault();
-      openLink(targetUrl.toString());
+      openUrl(targetUrl.toString());
     }
   }, [to, propsOnClick]);
 
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Button,
   Input,
@@ -8,7 +8,20 @@ import {
   Spinner,
 } from "@telegram-apps/telegram-ui";
 import { initData } from "@tma.js/sdk-react";
-import { supabase } from "@/supabaseClient";
+import {
+  bindTelegramAccount,
+  emailDomain,
+  isEmailAddress,
+  loadAllowedDomains,
+  LOGIN_ERROR_MESSAGES,
+  matchesAllowedDomain,
+  requestLoginCode,
+  verifyLoginCode,
+  type LoginErrorCode,
+} from "@/auth/login";
+import { logger } from "@/logging/logger";
+
+const log = logger("auth");
 
 interface LoginScreenProps {
   onLoginSuccess: () => void;
@@ -19,79 +32,82 @@ export function LoginScreen({ onLoginSuccess }: LoginScreenProps) {
   const [otp, setOtp] = useState("");
   const [step, setStep] = useState<"email" | "otp">("email");
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<LoginErrorCode | null>(null);
+
+  // Domains anyone on them may sign in with, shown as a hint. The server enforces them.
+  const [domains, setDomains] = useState<string[]>([]);
+  useEffect(() => {
+    loadAllowedDomains()
+      .then(setDomains)
+      .catch((e: unknown) => {
+        log.warn("Loading allowed login domains failed", { error: e });
+      });
+  }, []);
 
   // 1. Send OTP
   const handleSendOtp = async () => {
-    // Basic domain check on frontend
-    if (!email.endsWith("@favoritemedium.com")) {
-      alert("Access Denied: Only @favoritemedium.com emails are allowed.");
-      return;
-    }
+    setError(null);
     setLoading(true);
-
-    const { error } = await supabase.auth.signInWithOtp({
-      email,
-      options: { shouldCreateUser: true },
-    });
+    const result = await requestLoginCode(email);
     setLoading(false);
 
-    if (error) {
-      alert("Failed to send code: " + error.message);
+    if (!result.ok) {
+      log.warn("Requesting login code failed", {
+        domain: emailDomain(email),
+        code: result.code,
+        detail: result.detail,
+      });
+      setError(result.code);
     } else {
+      log.info("OTP sent", { domain: emailDomain(email) });
       setStep("otp");
     }
   };
 
   // 2. Verify OTP and Bind Telegram ID
   const handleVerify = async () => {
-    setLoading(true);
+    setError(null);
 
-    // 1. Debug: use initData module as the source of truth.
+    // 1. Use initData module as the source of truth. The logger redacts its hash and signature.
     const raw = initData.raw();
-    console.log("Debug: initDataRaw =", raw);
+    log.debug("Verifying OTP", {
+      domain: emailDomain(email),
+      initDataRaw: raw,
+    });
 
     // === Defensive check ===
     if (!raw) {
-      alert(
-        "无法获取 initDataRaw：请从 Telegram 内部入口打开（Menu/Button）。",
-      );
-      setLoading(false);
+      log.warn("initData raw is missing, cannot bind Telegram ID");
+      setError("init_data_missing");
       return;
     }
 
-    // A. Verify OTP with Supabase
-    const {
-      data: { session },
-      error,
-    } = await supabase.auth.verifyOtp({
-      email,
-      token: otp,
-      type: "email",
-    });
+    setLoading(true);
 
-    if (error || !session) {
-      alert("Invalid code or session expired.");
+    // A. Verify OTP with Supabase
+    const verified = await verifyLoginCode(email, otp);
+    if (!verified.ok) {
+      log.warn("OTP verification failed", {
+        domain: emailDomain(email),
+        code: verified.code,
+        detail: verified.detail,
+      });
+      setError(verified.code);
       setLoading(false);
       return;
     }
 
     // B. Critical Step: Call Edge Function to bind Telegram ID
     // We send init data raw which contains the cryptographic signature from Telegram
-
-    const { data, error: bindError } = await supabase.functions.invoke(
-      "connect-telegram",
-      {
-        body: { initData: raw },
-        headers: { Authorization: `Bearer ${session.access_token}` },
-      },
-    );
-    console.log("connect-telegram data =", data);
-
+    const bound = await bindTelegramAccount(verified.value, raw);
     setLoading(false);
 
-    if (bindError) {
-      console.log("bindError =", bindError);
-      alert("Binding failed: " + JSON.stringify(bindError, null, 2));
+    if (!bound.ok) {
+      log.error("connect-telegram failed", {
+        code: bound.code,
+        detail: bound.detail,
+      });
+      setError(bound.code);
       // Optional: Sign out if binding fails to ensure data consistency
       // await supabase.auth.signOut();
     } else {
@@ -99,6 +115,16 @@ export function LoginScreen({ onLoginSuccess }: LoginScreenProps) {
     }
   };
 
+  const domainHint = domains.length
+    ? `Sign in with an email on ${domains
+        .map((domain) => `@${domain}`)
+        .join(", ")} or an address you were invited with.`
+    : undefined;
+  const outsideDomains =
+    domains.length > 0 &&
+    isEmailAddress(email) &&
+    !matchesAllowedDomain(email, domains);
+
   if (loading) {
     return (
       <Placeholder header="Processing" description="Please wait a moment...">
@@ -114,20 +140,30 @@ export function LoginScreen({ onLoginSuccess }: LoginScreenProps) {
       </div>
 
       <Section
-        header={
-          step === "email" ? "University Email" : "Enter Verification Code"
+        header={step === "email" ? "Work Email" : "Enter Verification Code"}
+        footer={
+          step === "email"
+            ? outsideDomains
+              ? "This domain is not on the list. Only invited addresses can sign in with it."
+              : domainHint
+            : undefined
         }
       >
         {step === "email" ? (
           <>
             <Input
               header="Email"
-              placeholder="name@favoritemedium.com"
+              type="email"
+              placeholder={`name@${domains[0] ?? "company.com"}`}
               value={email}
-              onChange={(e) => setEmail(e.target.value)}
+              status={error && step === "email" ? "error" : undefined}
+              onChange={(e) => {
+                setEmail(e.target.value);
+                setError(null);
+              }}
             />
             <div style={{ padding: 10 }}>
-              <Button size="l" stretched onClick={handleSendOtp}>
+              <Button size="l" stretched onClick={() => void handleSendOtp()}>
                 Send Login Code
               </Button>
             </div>
@@ -137,18 +173,26 @@ export function LoginScreen({ onLoginSuccess }: LoginScreenProps) {
             <Input
               header="Code"
               placeholder="123456"
+              inputMode="numeric"
               value={otp}
-              onChange={(e) => setOtp(e.target.value)}
+              status={error && step === "otp" ? "error" : undefined}
+              onChange={(e) => {
+                setOtp(e.target.value);
+                setError(null);
+              }}
             />
             <div style={{ padding: 10 }}>
-              <Button size="l" stretched onClick={handleVerify}>
+              <Button size="l" stretched onClick={() => void handleVerify()}>
                 Verify & Login
               </Button>
               <Button
                 mode="plain"
                 size="s"
                 stretched
-                onClick={() => setStep("email")}
+                onClick={() => {
+                  setError(null);
+                  setStep("email");
+                }}
                 style={{ marginTop: 8 }}
               >
                 Back to Email
@@ -156,6 +200,18 @@ export function LoginScreen({ onLoginSuccess }: LoginScreenProps) {
             </div>
           </>
         )}
+        {error && (
+          <div
+            role="alert"
+            style={{
+              color: "var(--tgui--destructive_text_color, red)",
+              padding: "0 16px 12px",
+              fontSize: 14,
+            }}
+          >
+            {LOGIN_ERROR_MESSAGES[error]}
+          </div>
+        )}
       </Section>
     </List>
   );
@@ -1,262 +1,547 @@
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import {
-  initData,
+  copyTextToClipboard,
+  hapticFeedback,
   isTMA,
-  openLink,
-  qrScanner,
-  retrieveLaunchParams,
+  openTelegramLink,
 } from "@tma.js/sdk-react";
 
+import { useCan } from "@/auth/useCan";
+import { Link } from "@/components/Link/Link.tsx";
+import { ScanResult } from "@/components/ScanResult";
+import { TonTransferSheet } from "@/components/TonTransferSheet";
+import { getClientInfo } from "@/diagnostics/report";
+import { parseTelegramLink } from "@/helpers/telegramLinks";
+import {
+  clearLogs,
+  copyLogs,
+  describeValue,
+  formatLogEntry,
+  logger,
+  shareLogs,
+} from "@/logging/logger";
+import { useLogEntries } from "@/logging/useLogEntries";
+import { decodeQrImage } from "@/qr/image";
+import {
+  checkDuplicate,
+  formatScannedAgo,
+  markScanned,
+  type DuplicateCheck,
+} from "@/scan/dedupe";
+import { defaultLinkPolicy, openScannedLink } from "@/scan/linkSafety";
+import {
+  classifyPayload,
+  payloadLink,
+  type QrPayload,
+} from "@/scan/payload";
+import type { QrCaptureEnd } from "@/scan/qrCapture";
+import { enqueueScan } from "@/scan/queue";
+import {
+  DEFAULT_SCAN_RULES,
+  invokeScanFunction,
+  loadScanRules,
+  logScanAction,
+  resolveRoute,
+  selectRule,
+  type ScanRule,
+} from "@/scan/rules";
+import { useQrCapture } from "@/scan/useQrCapture";
+import { addRecentScan, clearRecentScans } from "@/settings/store";
+import { useSettings } from "@/settings/useSettings";
+import { parseTonTransfer, type TonTransfer } from "@/ton/transfer";
+
+const log = logger("scanner");
+const bridgeLog = logger("bridge");
+const supabaseLog = logger("supabase");
+
 export const QrScanner = () => {
-  // Holds the latest scanned QR payload (string) or null when nothing scanned yet.
-  const [qrResult, setQrResult] = useState<string | null>(null);
+  // The scanned payload shown in the result viewer, or null when nothing is shown.
+  const [result, setResult] = useState<QrPayload | null>(null);
+
+  // A scanned ton://transfer link waiting for the user to confirm the payment.
+  const [tonTransfer, setTonTransfer] = useState<TonTransfer | null>(null);
 
   // Holds a human-readable error message to show in UI.
   const [error, setError] = useState<string | null>(null);
 
-  // On-screen logs for debugging on mobile devices (where DevTools may be inconvenient).
-  const [debugLogs, setDebugLogs] = useState<string[]>([]);
+  // Set when the native scanner can't be opened (Telegram Desktop/Web, old clients). Offers
+  // decoding a picked image or screenshot instead.
+  const [nativeUnavailable, setNativeUnavailable] = useState(false);
+  const [decodingImage, setDecodingImage] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Confirmation of a completed action, e.g. "Copied to clipboard."
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // A payload scanned again within the dedupe window, waiting for the user to record it again
+  // or dismiss it.
+  const [duplicate, setDuplicate] = useState<{
+    payload: QrPayload;
+    check: Extract<DuplicateCheck, { duplicate: true }>;
+  } | null>(null);
+
+  // Scan action rules. Starts with the built-in rules until the remote ones are loaded.
+  const rulesRef = useRef<ScanRule[]>(DEFAULT_SCAN_RULES);
+
+  const navigate = useNavigate();
+
+  // Scanner preferences and recent scans, synced between the user's Telegram clients.
+  const {
+    scanner: scannerPrefs,
+    showDebugPanel,
+    recentScans,
+  } = useSettings();
+
+  // Batch mode keeps re-opening the scanner and collects every unique payload.
+  const [batchMode, setBatchMode] = useState(scannerPrefs.batchByDefault);
+  const [batchActive, setBatchActive] = useState(false);
+  const [batch, setBatch] = useState<QrPayload[]>([]);
+  // Batch payloads already recorded within the dedupe window, by raw value: when they were
+  // scanned before. These are listed but not recorded again.
+  const [batchRepeats, setBatchRepeats] = useState<Record<string, string>>({});
+  // Incremented when a session ends, so a late-resolving capture() can't re-open the scanner.
+  const batchSessionRef = useRef(0);
 
-  const pushLog = useCallback((message: string) => {
-    const ts = new Date().toISOString();
-    setDebugLogs((prev) => [`${ts} ${message}`, ...prev].slice(0, 80));
-  }, []);
-
-  const clearLogs = useCallback(() => {
-    setDebugLogs([]);
-  }, []);
-
-  // Useful context to quickly verify whether you're actually running inside Telegram.
-  const envSnapshot = useMemo(() => {
-    const w = window as any;
-    /**
-     * Telegram WebApp injection shape can differ by client/platform/version.
-     * Some clients expose `window.Telegram.WebApp`, while others may expose only `window.TelegramWebviewProxy`.
-     * We use a broader check to avoid false negatives.
-     */
-    const hasTelegram =
-      Boolean(w?.Telegram?.WebApp) || Boolean(w?.TelegramWebviewProxy);
-
-    const ua = typeof navigator !== "undefined" ? navigator.userAgent : "n/a";
-    const url = typeof window !== "undefined" ? window.location.href : "n/a";
-
-    // Additional checks:
-    // 1) retrieveLaunchParams(): whether launch params are available (and what platform Telegram reports).
-    let launchParamsOk = false;
-    let launchPlatform: string | null = null;
-    let launchError: string | null = null;
-    try {
-      const lp = retrieveLaunchParams();
-      launchParamsOk = true;
-      // lp.tgWebAppPlatform is usually present in Telegram environment.
-      launchPlatform = (lp as any)?.tgWebAppPlatform ?? null;
-    } catch (e) {
-      launchError = e instanceof Error ? `${e.name}: ${e.message}` : String(e);
-    }
+  // On-screen logs for debugging on mobile devices (where DevTools may be inconvenient).
+  const logEntries = useLogEntries();
+  const debugLogs = useMemo(
+    () => logEntries.slice(-80).reverse().map(formatLogEntry),
+    [logEntries],
+  );
+  const [logNotice, setLogNotice] = useState<string | null>(null);
 
-    // 2) initData raw presence: whether init data is available in this runtime.
-    let initDataRawPresent = false;
-    let initDataError: string | null = null;
+  const exportLogs = useCallback(async (via: "copy" | "share") => {
+    setLogNotice(null);
     try {
-      const raw = initData.raw();
-      initDataRawPresent = typeof raw === "string" && raw.length > 0;
+      if (via === "copy") {
+        await copyLogs("text");
+        setLogNotice("Logs copied to clipboard.");
+      } else {
+        await shareLogs("json");
+      }
     } catch (e) {
-      initDataError =
-        e instanceof Error ? `${e.name}: ${e.message}` : String(e);
+      log.warn("Log export failed", { via, error: e });
+      setLogNotice(
+        `Export failed: ${e instanceof Error ? e.message : String(e)}`,
+      );
     }
+  }, []);
 
-    // 3) isTMA('complete'): SDK-provided environment completeness check.
-    // Note: `isTMA` returns a Promise, so we only store "pending" here and resolve it in code.
-    const isTmaComplete = "pending" as const;
-
-    return {
-      hasTelegram,
-      ua,
-      url,
-      launchParamsOk,
-      launchPlatform,
-      launchError,
-      initDataRawPresent,
-      initDataError,
-      isTmaComplete,
-    };
+  // Client version, platform and init data presence. The full capability report is on
+  // the diagnostics page.
+  const clientInfo = useMemo(() => getClientInfo(), []);
+  const canDiagnose = useCan("diagnostics");
+
+  useEffect(() => {
+    loadScanRules().then(
+      ({ rules, source, errors }) => {
+        rulesRef.current = rules;
+        log.info("Scan rules loaded", { count: rules.length, source });
+        errors.forEach((message) =>
+          log.warn("Scan rule skipped", { reason: message }),
+        );
+      },
+      (e) =>
+        log.error("Loading scan rules failed, using built-in rules", {
+          error: e,
+        }),
+    );
   }, []);
 
+  const dedupeOptions = useMemo(
+    () => ({
+      window: scannerPrefs.dedupeWindowSeconds * 1000,
+      checkServer: scannerPrefs.dedupeServerCheck,
+    }),
+    [scannerPrefs.dedupeWindowSeconds, scannerPrefs.dedupeServerCheck],
+  );
+
   /**
-   * Best-effort URL detection for common QR payloads.
-   * - Accepts http/https URLs.
-   * - Also treats "www.example.com" as a URL and normalizes it to "https://www.example.com".
+   * Queues the payload for the scan history and adds it to the recent scans. The queue uploads
+   * it in the background and keeps it on the device while offline; failures are only logged.
    */
-  const normalizeUrl = (value: string): string | null => {
-    const raw = value.trim();
-    if (!raw) return null;
+  const persistScan = useCallback((payload: QrPayload) => {
+    markScanned(payload);
+    enqueueScan(payload).then(
+      (scan) => {
+        log.debug("Scan queued", { clientId: scan.clientId });
+        addRecentScan({
+          id: scan.clientId,
+          raw: scan.payload,
+          type: scan.payloadType,
+          scannedAt: scan.scannedAt,
+        });
+      },
+      (e) => log.error("Queueing scan failed", { error: e }),
+    );
+  }, []);
 
-    // Fast path: explicit protocol.
-    if (/^https?:\/\/\S+$/i.test(raw)) {
-      try {
-        // Validate URL shape.
-        // eslint-disable-next-line no-new
-        new URL(raw);
-        return raw;
-      } catch {
-        return null;
+  /**
+   * Opens a scanned link. Telegram-native links (bots, channels, invites, Mini Apps, shares)
+   * stay inside Telegram; everything else goes through the safety gate (allowlist/denylist and
+   * confirmation popup).
+   */
+  const openLinkSafely = useCallback(
+    (url: string) => {
+      const telegramLink = parseTelegramLink(url);
+      if (telegramLink) {
+        bridgeLog.info("openTelegramLink()", {
+          ...describeValue(telegramLink.url),
+          kind: telegramLink.kind,
+        });
+        try {
+          openTelegramLink(telegramLink.url);
+        } catch (e) {
+          bridgeLog.error("openTelegramLink() threw", { error: e });
+        }
+        return;
       }
-    }
 
-    // Common QR case: "www.example.com/..." without protocol.
-    if (/^www\.\S+$/i.test(raw)) {
-      const normalized = `https://${raw}`;
-      try {
-        // eslint-disable-next-line no-new
-        new URL(normalized);
-        return normalized;
-      } catch {
-        return null;
+      openScannedLink(url, defaultLinkPolicy, {
+        autoOpenTrusted: scannerPrefs.autoOpenTrustedLinks,
+      }).then(
+        ({ verdict, warnings, opened }) =>
+          log.info("Scanned link checked", {
+            ...describeValue(url),
+            verdict,
+            warnings,
+            opened,
+          }),
+        (e) =>
+          log.error("Opening scanned link failed", {
+            ...describeValue(url),
+            error: e,
+          }),
+      );
+    },
+    [scannerPrefs.autoOpenTrustedLinks],
+  );
+
+  const scanHaptic = useCallback(
+    (type: "success" | "warning") => {
+      if (
+        scannerPrefs.hapticsOnSuccess &&
+        hapticFeedback.notificationOccurred.isAvailable()
+      ) {
+        hapticFeedback.notificationOccurred(type);
       }
-    }
+    },
+    [scannerPrefs.hapticsOnSuccess],
+  );
 
-    return null;
-  };
+  /**
+   * Runs a rule's action for a payload.
+   * @throws If the action fails (e.g. the edge function returns an error).
+   */
+  const runAction = useCallback(
+    async (rule: ScanRule, payload: QrPayload) => {
+      const { action } = rule;
+      switch (action.type) {
+        case "open_link": {
+          const transfer =
+            payload.type === "ton" ? parseTonTransfer(payload) : null;
+          const url = payloadLink(payload);
+
+          if (transfer) {
+            setResult(null);
+            log.info("Opening TON transfer confirmation");
+            setTonTransfer(transfer);
+          } else if (url) {
+            setResult(null);
+            openLinkSafely(url);
+          } else {
+            log.debug("Payload has no link, showing it instead");
+            setResult(payload);
+          }
+          return;
+        }
+        case "invoke_function": {
+          log.info("Invoking scan function", {
+            functionName: action.functionName,
+          });
+          setResult(payload);
+          const data = await invokeScanFunction(
+            action.functionName,
+            payload,
+            rule,
+          );
+          log.debug("Scan function responded", {
+            functionName: action.functionName,
+            response: data,
+          });
+          setNotice(`Sent to ${action.functionName}.`);
+          return;
+        }
+        case "copy":
+          setResult(payload);
+          await copyTextToClipboard(payload.raw);
+          setNotice("Copied to clipboard.");
+          return;
+        case "navigate": {
+          const route = resolveRoute(action.route, payload);
+          log.info("Navigating", { route });
+          navigate(route);
+          return;
+        }
+        case "show":
+          log.debug("Showing scanned payload");
+          setResult(payload);
+          return;
+      }
+    },
+    [navigate, openLinkSafely],
+  );
 
-  const openScanner = useCallback(async () => {
-    pushLog("Tap: Start QR Scanner");
-    setError(null);
+  /**
+   * Records the payload, then runs the action of the first matching scan rule. Every action is
+   * logged to `scan_action_log`.
+   */
+  const processPayload = useCallback(
+    (payload: QrPayload) => {
+      scanHaptic("success");
+      persistScan(payload);
+      setNotice(null);
+      setDuplicate(null);
+
+      const rule = selectRule(rulesRef.current, payload);
+      if (!rule) {
+        log.info("No scan rule matched, showing scanned payload");
+        setResult(payload);
+        return;
+      }
+      log.info("Scan rule matched", {
+        rule: rule.name,
+        action: rule.action.type,
+        payloadType: payload.type,
+      });
 
-    // If capture callback is invoked but the promise never resolves (seen on some iOS clients),
-    // we still want to get a visible hint in logs and UI.
-    let captureResolved = false;
-    const timeoutId = window.setTimeout(() => {
-      if (!captureResolved) {
-        pushLog(
-          "Timeout: qrScanner.capture() did not resolve. Using capture() callback handling (fallback).",
+      const report = (
+        outcome: { status: "ok" } | { status: "failed"; error: string },
+      ) =>
+        logScanAction(rule, payload, outcome).catch((e) =>
+          supabaseLog.error("Writing scan_action_log failed", { error: e }),
         );
+
+      runAction(rule, payload).then(
+        () => report({ status: "ok" }),
+        (e) => {
+          const msg = e instanceof Error ? e.message : String(e);
+          setError(`Action "${rule.name}" failed: ${msg}`);
+          log.error("Scan action failed", { rule: rule.name, error: e });
+          return report({ status: "failed", error: msg });
+        },
+      );
+    },
+    [scanHaptic, persistScan, runAction],
+  );
+
+  /**
+   * Result pipeline shared by every scan source. A payload recorded within the dedupe window is
+   * held back with a "scanned 2 min ago" notice instead of being recorded and acted on again.
+   */
+  const handlePayload = useCallback(
+    async (payload: QrPayload) => {
+      setNotice(null);
+      const check = await checkDuplicate(payload, dedupeOptions);
+      if (!check.duplicate) {
+        processPayload(payload);
+        return;
       }
-    }, 3000);
 
-    try {
-      pushLog(`Env: hasTelegramWebApp=${String(envSnapshot.hasTelegram)}`);
+      log.info("Duplicate scan held back", {
+        payloadType: payload.type,
+        lastScannedAt: check.lastScannedAt,
+        source: check.source,
+      });
+      scanHaptic("warning");
+      setResult(payload);
+      setDuplicate({ payload, check });
+    },
+    [dedupeOptions, processPayload, scanHaptic],
+  );
 
-      // 1) Launch params check (sync)
-      pushLog(
-        `LaunchParams: ok=${String(envSnapshot.launchParamsOk)} platform=${JSON.stringify(
-          envSnapshot.launchPlatform,
-        )} err=${JSON.stringify(envSnapshot.launchError)}`,
-      );
+  const capture = useQrCapture();
 
-      // 2) initData presence check (sync)
-      pushLog(
-        `InitData: rawPresent=${String(envSnapshot.initDataRawPresent)} err=${JSON.stringify(
-          envSnapshot.initDataError,
-        )}`,
+  /**
+   * Reports a session that failed to open the scanner. Unsupported clients get the image
+   * fallback.
+   */
+  const reportCaptureFailure = useCallback((end: QrCaptureEnd) => {
+    if (end.status === "unsupported" || end.status === "error") {
+      setError(
+        "Failed to open QR scanner (unsupported environment or client limitation).",
       );
+      setNativeUnavailable(true);
+    }
+  }, []);
 
-      // 3) isTMA('complete') check (async)
-      try {
-        const ok = await isTMA("complete");
-        pushLog(`isTMA('complete') => ${String(ok)}`);
-      } catch (e) {
-        const msg = e instanceof Error ? `${e.name}: ${e.message}` : String(e);
-        pushLog(`isTMA('complete') threw => ${msg}`);
+  const openScanner = useCallback(async () => {
+    setError(null);
+
+    // isTMA('complete') is async, so it is checked here rather than in clientInfo.
+    let isTmaComplete: boolean | string;
+    try {
+      isTmaComplete = await isTMA("complete");
+    } catch (e) {
+      isTmaComplete = e instanceof Error ? `${e.name}: ${e.message}` : String(e);
+    }
+
+    log.info("Opening scanner", {
+      version: clientInfo.version,
+      platform: clientInfo.platform,
+      launchParamsError: clientInfo.launchParamsError,
+      initDataPresent: clientInfo.initDataPresent,
+      isTmaComplete,
+    });
+
+    // The capture session delivers the payload exactly once, also on clients where
+    // qrScanner.capture() never resolves.
+    const end = await capture.open({
+      text: scannerPrefs.prompt || undefined,
+    });
+    if (end.status !== "result") {
+      reportCaptureFailure(end);
+      if (end.status === "closed" || end.status === "timed_out") {
+        setError("QR scanner was closed or no QR content was captured.");
       }
+      return;
+    }
 
-      pushLog("Calling qrScanner.capture(...)");
-
-      /**
-       * Opens Telegram Mini App native QR scanner and captures a single QR.
-       *
-       * IMPORTANT:
-       * Some clients can invoke `capture(scannedQr)` but never resolve the returned promise.
-       * To avoid a "no result" UX, we handle the payload immediately inside the callback (fallback),
-       * then still await the promise for the normal/expected flow.
-       */
-      const scanned = await qrScanner.capture({
-        capture(scannedQr) {
-          pushLog(`capture(): received=${JSON.stringify(scannedQr)}`);
-
-          // Only handle valid non-empty strings.
-          if (typeof scannedQr !== "string" || scannedQr.trim().length === 0) {
-            return false;
-          }
+    const payload = classifyPayload(end.value);
+    log.info("Scanned", {
+      ...describeValue(payloadLink(payload) ?? payload.raw),
+      payloadType: payload.type,
+    });
+    await handlePayload(payload);
+  }, [
+    capture,
+    clientInfo,
+    handlePayload,
+    reportCaptureFailure,
+    scannerPrefs.prompt,
+  ]);
 
-          // Fallback: handle payload immediately instead of waiting for the promise to resolve.
-          const url = normalizeUrl(scannedQr);
-          pushLog(`capture(): normalizeUrl => ${JSON.stringify(url)}`);
-
-          if (url) {
-            setQrResult(null);
-            pushLog(`capture(): openLink(${url})`);
-            try {
-              openLink(url);
-              pushLog("capture(): openLink dispatched.");
-            } catch (e) {
-              const msg =
-                e instanceof Error ? `${e.name}: ${e.message}` : String(e);
-              pushLog(`capture(): openLink threw => ${msg}`);
-            }
-          } else {
-            pushLog("capture(): showing payload in UI.");
-            setQrResult(scannedQr);
+  /**
+   * Batch scanning session.
+   *
+   * The native scanner prompt can't be changed while it is open, so every new unique payload
+   * is accepted (which closes the scanner) and the scanner is re-opened right away with the
+   * updated count. Duplicates are rejected from `capture()`, keeping the scanner open. Closing
+   * the scanner ends the session. Payloads recorded before within the dedupe window are listed
+   * but not recorded again.
+   */
+  const openBatchScanner = useCallback(async () => {
+    log.info("Starting batch scan");
+    setError(null);
+    setResult(null);
+    setDuplicate(null);
+    setBatch([]);
+    setBatchRepeats({});
+    setBatchActive(true);
+
+    const seen = new Set<string>();
+    const session = ++batchSessionRef.current;
+
+    while (session === batchSessionRef.current) {
+      const end = await capture.open({
+        text: `Batch mode: ${seen.size} scanned. Close the scanner to finish.`,
+        accept(scannedQr) {
+          const value = scannedQr.trim();
+          if (!value) return false;
+
+          if (seen.has(value)) {
+            log.debug("Batch: duplicate ignored", { length: value.length });
+            return false;
           }
-
-          // Accept (and close) immediately after we've handled the payload.
           return true;
         },
       });
 
-      captureResolved = true;
-      window.clearTimeout(timeoutId);
-
-      pushLog(`qrScanner.capture resolved: ${JSON.stringify(scanned)}`);
+      if (end.status !== "result") {
+        reportCaptureFailure(end);
+        log.debug("Batch: scanner session ended", { status: end.status });
+        break;
+      }
 
-      // If the promise resolved with a value, we can run the normal flow too.
-      // (This is mostly redundant with the callback handling, but kept for correctness.)
-      if (!scanned) {
-        setError("QR scanner was closed or no QR content was captured.");
-        pushLog("No payload returned (scanner closed / undefined).");
-        return;
+      const value = end.value.trim();
+      seen.add(value);
+      const payload = classifyPayload(value);
+      log.debug("Batch: scanned", {
+        count: seen.size,
+        payloadType: payload.type,
+      });
+      setBatch((prev) => [...prev, payload]);
+
+      const check = await checkDuplicate(payload, dedupeOptions);
+      if (check.duplicate) {
+        log.debug("Batch: recorded before, not recording again", {
+          lastScannedAt: check.lastScannedAt,
+          source: check.source,
+        });
+        setBatchRepeats((prev) => ({
+          ...prev,
+          [payload.raw]: check.lastScannedAt,
+        }));
+        scanHaptic("warning");
+      } else {
+        scanHaptic("success");
+        persistScan(payload);
       }
+    }
 
-      const url = normalizeUrl(scanned);
-      pushLog(`normalizeUrl => ${JSON.stringify(url)}`);
+    if (session === batchSessionRef.current) {
+      batchSessionRef.current++;
+      setBatchActive(false);
+    }
+    log.info("Batch scan finished", { unique: seen.size });
+  }, [capture, dedupeOptions, scanHaptic, persistScan, reportCaptureFailure]);
 
-      if (url) {
-        setQrResult(null);
-        pushLog(`Opening link via openLink(): ${url}`);
-        try {
-          openLink(url);
-          pushLog("openLink(): dispatched.");
-        } catch (e) {
-          const msg =
-            e instanceof Error ? `${e.name}: ${e.message}` : String(e);
-          pushLog(`openLink(): threw => ${msg}`);
-          throw e;
-        }
-        return;
-      }
+  /**
+   * Fallback for clients without the native scanner: decodes a picked image on the device and
+   * feeds the text into the same pipeline as a native scan.
+   */
+  const decodeImage = useCallback(
+    async (file: File) => {
+      log.info("Decoding picked image", {
+        name: file.name,
+        type: file.type,
+        size: file.size,
+      });
+      setError(null);
+      setDecodingImage(true);
 
-      pushLog("Showing scanned payload in UI.");
-      setQrResult(scanned);
-    } catch (e) {
-      // This may happen if the environment does not support QR scanning or the client rejects the call.
-      const msg =
-        e instanceof Error
-          ? `${e.name}: ${e.message}`
-          : `Non-Error throw: ${String(e)}`;
+      try {
+        const decoded = await decodeQrImage(file);
+        if (!decoded || decoded.text.trim().length === 0) {
+          setError("No QR code found in this image.");
+          log.warn("No QR code found in picked image");
+          return;
+        }
 
-      setError(
-        "Failed to open QR scanner (unsupported environment or client limitation).",
-      );
-      pushLog(`Exception: ${msg}`);
-      // Keep console output as well for cases when DevTools/Eruda is enabled.
-      console.error(e);
-    } finally {
-      if (!captureResolved) {
-        // If promise is still pending, keep timeout log behavior. Otherwise safely clean up.
-      } else {
-        window.clearTimeout(timeoutId);
+        const payload = classifyPayload(decoded.text, { gs1: decoded.gs1 });
+        log.info("Decoded picked image", {
+          version: decoded.version,
+          ecl: decoded.ecl,
+          ...describeValue(payloadLink(payload) ?? payload.raw),
+          payloadType: payload.type,
+        });
+        await handlePayload(payload);
+      } catch (e) {
+        setError("Failed to read the image.");
+        log.error("Decoding picked image failed", { error: e });
+      } finally {
+        setDecodingImage(false);
       }
-    }
-  }, [envSnapshot.hasTelegram, pushLog]);
+    },
+    [handlePayload],
+  );
+
+  const finishBatch = useCallback(() => {
+    batchSessionRef.current++;
+    capture.cancel();
+    setBatchActive(false);
+  }, [capture]);
 
   return (
     <div
@@ -271,8 +556,19 @@ export const QrScanner = () => {
     >
       <h2 style={{ margin: 0 }}>Vite + TMA QR Scanner</h2>
 
+      <label style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+        <input
+          type="checkbox"
+          checked={batchMode}
+          disabled={batchActive}
+          onChange={(e) => setBatchMode(e.target.checked)}
+        />
+        Batch mode (keep scanning)
+      </label>
+
       <button
-        onClick={openScanner}
+        onClick={() => void (batchMode ? openBatchScanner() : openScanner())}
+        disabled={batchActive}
         style={{
           padding: "12px 24px",
           borderRadius: "12px",
@@ -284,114 +580,328 @@ export const QrScanner = () => {
           cursor: "pointer",
         }}
       >
-        Start QR Scanner
+        {batchMode ? "Start Batch Scan" : "Start QR Scanner"}
       </button>
 
+      {/* Image fallback section */}
+      {nativeUnavailable && (
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: "8px",
+            alignItems: "center",
+            textAlign: "center",
+          }}
+        >
+          <span style={{ fontSize: "14px" }}>
+            The native scanner is not available in this client. Pick a photo or
+            screenshot of a QR code instead.
+          </span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              // Allow picking the same file again.
+              e.target.value = "";
+              if (file) void decodeImage(file);
+            }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={decodingImage}
+            style={{
+              padding: "10px 20px",
+              borderRadius: "12px",
+              border: "1px solid #0088cc",
+              background: "white",
+              color: "#0088cc",
+              fontSize: "15px",
+              fontWeight: 600,
+              cursor: "pointer",
+            }}
+          >
+            {decodingImage ? "Decoding..." : "Decode from image"}
+          </button>
+        </div>
+      )}
+
+      {/* Batch section */}
+      {(batchActive || batch.length > 0) && (
+        <div
+          style={{
+            padding: "15px",
+            background: "#f0f0f0",
+            borderRadius: "8px",
+            width: "100%",
+            boxSizing: "border-box",
+            wordBreak: "break-word",
+          }}
+        >
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              gap: "10px",
+            }}
+          >
+            <strong>
+              {batchActive ? "Scanning batch" : "Batch result"}: {batch.length}{" "}
+              unique code(s)
+            </strong>
+            <button
+              onClick={
+                batchActive
+                  ? finishBatch
+                  : () => {
+                      setBatch([]);
+                      setBatchRepeats({});
+                    }
+              }
+              style={{
+                padding: "6px 10px",
+                borderRadius: "8px",
+                border: "1px solid #ccc",
+                background: "white",
+                cursor: "pointer",
+                fontSize: "12px",
+              }}
+            >
+              {batchActive ? "End session" : "Clear"}
+            </button>
+          </div>
+          <ol style={{ margin: "8px 0 0 0", paddingLeft: "20px" }}>
+            {batch.map((payload) => (
+              <li key={payload.raw} style={{ marginTop: "4px" }}>
+                <code>{payload.type}</code> {payload.raw}
+                {batchRepeats[payload.raw] && (
+                  <span style={{ color: "#8a6d00" }}>
+                    {" "}
+                    (scanned {formatScannedAgo(batchRepeats[payload.raw])}, not
+                    recorded again)
+                  </span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {/* Duplicate section */}
+      {duplicate && (
+        <div
+          style={{
+            padding: "12px 15px",
+            background: "#fff8e1",
+            border: "1px solid #ffe082",
+            borderRadius: "8px",
+            width: "100%",
+            boxSizing: "border-box",
+            display: "flex",
+            flexDirection: "column",
+            gap: "8px",
+          }}
+        >
+          <span>
+            Scanned {formatScannedAgo(duplicate.check.lastScannedAt)}
+            {duplicate.check.source === "server" && " (in your scan history)"}.
+            Record it again?
+          </span>
+          <div style={{ display: "flex", gap: "8px" }}>
+            <button
+              onClick={() => processPayload(duplicate.payload)}
+              style={{
+                padding: "6px 10px",
+                borderRadius: "8px",
+                border: "none",
+                background: "#0088cc",
+                color: "white",
+                cursor: "pointer",
+                fontSize: "13px",
+              }}
+            >
+              Record again
+            </button>
+            <button
+              onClick={() => setDuplicate(null)}
+              style={{
+                padding: "6px 10px",
+                borderRadius: "8px",
+                border: "1px solid #ccc",
+                background: "white",
+                cursor: "pointer",
+                fontSize: "13px",
+              }}
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Result section */}
-      {qrResult && (
+      {result && (
+        <ScanResult
+          payload={result}
+          onOpenLink={openLinkSafely}
+          onRescan={() => void openScanner()}
+        />
+      )}
+
+      {/* Recent scans section */}
+      {recentScans.length > 0 && (
         <div
           style={{
-            marginTop: "10px",
             padding: "15px",
             background: "#f0f0f0",
             borderRadius: "8px",
             width: "100%",
+            boxSizing: "border-box",
             wordBreak: "break-word",
           }}
         >
-          <strong>Scanned result:</strong>
-          <p style={{ margin: "8px 0 0 0" }}>{qrResult}</p>
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              gap: "10px",
+            }}
+          >
+            <strong>Recent scans</strong>
+            <button
+              onClick={clearRecentScans}
+              style={{
+                padding: "6px 10px",
+                borderRadius: "8px",
+                border: "1px solid #ccc",
+                background: "white",
+                cursor: "pointer",
+                fontSize: "12px",
+              }}
+            >
+              Clear
+            </button>
+          </div>
+          <ul style={{ margin: "8px 0 0 0", paddingLeft: "20px" }}>
+            {recentScans.slice(0, 5).map((scan) => (
+              <li
+                key={scan.id}
+                onClick={() => setResult(classifyPayload(scan.raw))}
+                style={{ marginTop: "4px", cursor: "pointer" }}
+              >
+                <code>{scan.type}</code> {scan.raw}
+              </li>
+            ))}
+          </ul>
         </div>
       )}
 
+      {tonTransfer && (
+        <TonTransferSheet
+          transfer={tonTransfer}
+          onClose={() => setTonTransfer(null)}
+        />
+      )}
+
+      {notice && (
+        <div style={{ color: "#2e7d32", marginTop: "10px" }}>{notice}</div>
+      )}
+
       {/* Error section */}
       {error && <div style={{ color: "red", marginTop: "10px" }}>{error}</div>}
 
       {/* Debug section */}
-      <div
-        style={{
-          marginTop: "10px",
-          width: "100%",
-          background: "#111",
-          color: "#eee",
-          borderRadius: "8px",
-          padding: "12px",
-          boxSizing: "border-box",
-        }}
-      >
+      {showDebugPanel && (
         <div
           style={{
-            display: "flex",
-            justifyContent: "space-between",
-            gap: "10px",
+            marginTop: "10px",
+            width: "100%",
+            background: "#111",
+            color: "#eee",
+            borderRadius: "8px",
+            padding: "12px",
+            boxSizing: "border-box",
           }}
         >
-          <strong>Debug logs</strong>
-          <button
-            onClick={clearLogs}
+          <div
             style={{
-              padding: "6px 10px",
-              borderRadius: "8px",
-              border: "1px solid #444",
-              background: "#222",
-              color: "#eee",
-              cursor: "pointer",
-              fontSize: "12px",
+              display: "flex",
+              justifyContent: "space-between",
+              gap: "10px",
             }}
           >
-            Clear
-          </button>
-        </div>
-
-        <div style={{ marginTop: "10px", fontSize: "12px", opacity: 0.9 }}>
-          <div>hasTelegramWebApp: {String(envSnapshot.hasTelegram)}</div>
-
-          <div style={{ marginTop: "6px" }}>
-            <strong>Launch params</strong>
-          </div>
-          <div>ok: {String(envSnapshot.launchParamsOk)}</div>
-          <div>platform: {String(envSnapshot.launchPlatform ?? "")}</div>
-          {envSnapshot.launchError && (
-            <div style={{ wordBreak: "break-word" }}>
-              error: {envSnapshot.launchError}
+            <strong>Debug logs</strong>
+            <div style={{ display: "flex", gap: "6px" }}>
+              {(
+                [
+                  ["Copy", () => void exportLogs("copy")],
+                  ["Share", () => void exportLogs("share")],
+                  ["Clear", clearLogs],
+                ] as const
+              ).map(([label, onClick]) => (
+                <button
+                  key={label}
+                  onClick={onClick}
+                  style={{
+                    padding: "6px 10px",
+                    borderRadius: "8px",
+                    border: "1px solid #444",
+                    background: "#222",
+                    color: "#eee",
+                    cursor: "pointer",
+                    fontSize: "12px",
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
-          )}
-
-          <div style={{ marginTop: "6px" }}>
-            <strong>Init data</strong>
           </div>
-          <div>raw present: {String(envSnapshot.initDataRawPresent)}</div>
-          {envSnapshot.initDataError && (
-            <div style={{ wordBreak: "break-word" }}>
-              error: {envSnapshot.initDataError}
-            </div>
+
+          {logNotice && (
+            <div style={{ marginTop: "6px", fontSize: "12px" }}>{logNotice}</div>
           )}
 
-          <div style={{ marginTop: "6px" }}>
-            <strong>Runtime</strong>
+          <div style={{ marginTop: "10px", fontSize: "12px", opacity: 0.9 }}>
+            <div>
+              client: {clientInfo.platform ?? "unknown"}{" "}
+              {clientInfo.version ?? ""}, init data:{" "}
+              {String(clientInfo.initDataPresent)}
+            </div>
+            {clientInfo.launchParamsError && (
+              <div style={{ wordBreak: "break-word" }}>
+                launch params error: {clientInfo.launchParamsError}
+              </div>
+            )}
+            {canDiagnose && (
+              <Link to="/diagnostics" style={{ color: "#6ab3f3" }}>
+                Full diagnostics report
+              </Link>
+            )}
           </div>
-          <div style={{ wordBreak: "break-word" }}>url: {envSnapshot.url}</div>
-          <div style={{ wordBreak: "break-word" }}>ua: {envSnapshot.ua}</div>
-        </div>
 
-        <pre
-          style={{
-            marginTop: "10px",
-            whiteSpace: "pre-wrap",
-            wordBreak: "break-word",
-            background: "#0b0b0b",
-            padding: "10px",
-            borderRadius: "6px",
-            maxHeight: "260px",
-            overflow: "auto",
-            border: "1px solid #222",
-          }}
-        >
-          {debugLogs.length
-            ? debugLogs.join("\n")
-            : "No logs yet. Tap the button to start."}
-        </pre>
-      </div>
+          <pre
+            style={{
+              marginTop: "10px",
+              whiteSpace: "pre-wrap",
+              wordBreak: "break-word",
+              background: "#0b0b0b",
+              padding: "10px",
+              borderRadius: "6px",
+              maxHeight: "260px",
+              overflow: "auto",
+              border: "1px solid #222",
+            }}
+          >
+            {debugLogs.length
+              ? debugLogs.join("\n")
+              : "No logs yet. Tap the button to start."}
+          </pre>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import {
+  Button,
+  Chip,
+  Input,
+  Section,
+  Select,
+  Text,
+} from "@telegram-apps/telegram-ui";
+
+import { logger } from "@/logging/logger";
+import {
+  copyScanExport,
+  createScanExport,
+  saveScanExport,
+  sendScanExportToChat,
+  type ScanExport,
+  type ScanExportFormat,
+} from "@/scan/export";
+import { QR_PAYLOAD_TYPES, type QrPayloadType } from "@/scan/payload";
+
+const log = logger("supabase");
+
+type ExportTarget = "save" | "copy" | "chat";
+
+const DONE_TEXT: Record<ExportTarget, (count: number) => string> = {
+  save: (count) => `Saved ${count} scan(s).`,
+  copy: (count) => `Copied ${count} scan(s) to the clipboard.`,
+  chat: (count) => `Sent ${count} scan(s) to your chat with the bot.`,
+};
+
+const DELIVER: Record<ExportTarget, (file: ScanExport) => Promise<void>> = {
+  save: saveScanExport,
+  copy: copyScanExport,
+  chat: sendScanExportToChat,
+};
+
+/**
+ * Exports the scan history for a date range and payload types as CSV or JSON.
+ */
+export function ScanExportSection() {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [types, setTypes] = useState<QrPayloadType[]>([]);
+  const [format, setFormat] = useState<ScanExportFormat>("csv");
+  const [busy, setBusy] = useState<ExportTarget | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const toggleType = (type: QrPayloadType) =>
+    setTypes((prev) =>
+      prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type],
+    );
+
+  const runExport = async (target: ExportTarget) => {
+    setBusy(target);
+    setNotice(null);
+    try {
+      const file = await createScanExport(
+        { from: from || null, to: to || null, types },
+        format,
+      );
+      if (!file.count) {
+        setNotice("No scans match the selection.");
+        return;
+      }
+      await DELIVER[target](file);
+      log.info("Scan history exported", { target, format, count: file.count });
+      setNotice(DONE_TEXT[target](file.count));
+    } catch (e) {
+      // Closing the share sheet rejects with an AbortError.
+      if (e instanceof Error && e.name === "AbortError") return;
+      log.error("Scan history export failed", { target, format, error: e });
+      setNotice(`Export failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Section
+      header="Export"
+      footer="Without a type selected, every type is exported."
+    >
+      <Input
+        header="From"
+        type="date"
+        value={from}
+        max={to || undefined}
+        onChange={(e) => setFrom(e.target.value)}
+      />
+      <Input
+        header="To"
+        type="date"
+        value={to}
+        min={from || undefined}
+        onChange={(e) => setTo(e.target.value)}
+      />
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 6, padding: 12 }}>
+        {QR_PAYLOAD_TYPES.map((type) => (
+          <Chip
+            key={type}
+            mode={types.includes(type) ? "mono" : "outline"}
+            onClick={() => toggleType(type)}
+            style={{ cursor: "pointer" }}
+          >
+            {type}
+          </Chip>
+        ))}
+      </div>
+      <Select
+        header="Format"
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ScanExportFormat)}
+      >
+        <option value="csv">CSV (spreadsheets)</option>
+        <option value="json">JSON</option>
+      </Select>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 8, padding: 12 }}>
+        {(
+          [
+            ["save", "Save file"],
+            ["copy", "Copy"],
+            ["chat", "Send to chat"],
+          ] as const
+        ).map(([target, label]) => (
+          <Button
+            key={target}
+            mode="bezeled"
+            size="s"
+            loading={busy === target}
+            disabled={busy !== null && busy !== target}
+            onClick={() => void runExport(target)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+      {notice && (
+        <Text style={{ display: "block", padding: "0 12px 12px" }}>
+          {notice}
+        </Text>
+      )}
+    </Section>
+  );
+}
@@ -0,0 +1,429 @@
+import { useState, type ReactNode } from "react";
+import { Button, List, Section, Text } from "@telegram-apps/telegram-ui";
+import { copyTextToClipboard, shareURL } from "@tma.js/sdk-react";
+
+import {
+  DisplayData,
+  type DisplayDataRow,
+} from "@/components/DisplayData/DisplayData.tsx";
+import { openUrl } from "@/helpers/telegramLinks";
+import { logger } from "@/logging/logger";
+import { payloadLink, type QrPayload } from "@/scan/payload";
+
+const log = logger("scanner");
+
+interface ScanResultProps {
+  payload: QrPayload;
+  /** Opens a link from the payload; scanned links go through the safety gate. */
+  onOpenLink: (url: string) => void;
+  onRescan: () => void;
+}
+
+interface ResultAction {
+  label: string;
+  onClick: () => void;
+}
+
+const TYPE_LABELS: Record<QrPayload["type"], string> = {
+  url: "Link",
+  wifi: "Wi-Fi network",
+  contact: "Contact",
+  email: "Email",
+  phone: "Phone number",
+  sms: "SMS",
+  geo: "Location",
+  otp: "One-time password",
+  payment: "SEPA payment",
+  ton: "TON link",
+  telegram: "Telegram link",
+  gs1: "GS1 product code",
+  json: "JSON",
+  text: "Text",
+};
+
+/**
+ * A row value with a small copy button next to it. Secrets stay masked until revealed.
+ */
+function CopyableValue({
+  value,
+  secret = false,
+}: {
+  value: string;
+  secret?: boolean;
+}) {
+  const [revealed, setRevealed] = useState(!secret);
+  const [copied, setCopied] = useState(false);
+
+  const copy = () => {
+    copyTextToClipboard(value).then(
+      () => setCopied(true),
+      (e) => log.warn("Copying value failed", { error: e }),
+    );
+  };
+
+  return (
+    <span
+      style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}
+    >
+      <span style={{ fontFamily: secret ? "monospace" : undefined }}>
+        {revealed ? value : "•".repeat(Math.min(value.length, 12))}
+      </span>
+      {secret && (
+        <Button mode="plain" size="s" onClick={() => setRevealed(!revealed)}>
+          {revealed ? "Hide" : "Show"}
+        </Button>
+      )}
+      <Button mode="bezeled" size="s" onClick={copy}>
+        {copied ? "Copied" : "Copy"}
+      </Button>
+    </span>
+  );
+}
+
+function hrefList(
+  scheme: "tel" | "mailto" | "sms",
+  values: string[],
+): ReactNode {
+  return (
+    <span style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+      {values.map((value) => (
+        <a key={value} href={`${scheme}:${value.replace(/\s+/g, "")}`}>
+          {value}
+        </a>
+      ))}
+    </span>
+  );
+}
+
+function optionalRow(title: string, value: ReactNode | null | undefined) {
+  return value === null || value === undefined || value === ""
+    ? undefined
+    : { title, value };
+}
+
+/**
+ * @returns The structured rows and type-specific actions for a payload.
+ */
+function describePayload(
+  payload: QrPayload,
+  onOpenLink: (url: string) => void,
+): { rows: (DisplayDataRow | undefined)[]; actions: ResultAction[] } {
+  switch (payload.type) {
+    case "url":
+      return {
+        rows: [
+          { title: "URL", value: payload.url },
+          { title: "Host", value: payload.host },
+        ],
+        actions: [{ label: "Open", onClick: () => onOpenLink(payload.url) }],
+      };
+    case "telegram":
+      return {
+        rows: [
+          { title: "Link", value: payload.url },
+          { title: "Target", value: payload.target },
+        ],
+        actions: payloadLink(payload)
+          ? [
+              {
+                label: "Open in Telegram",
+                onClick: () => onOpenLink(payload.url),
+              },
+            ]
+          : [],
+      };
+    case "wifi":
+      return {
+        rows: [
+          {
+            title: "Network (SSID)",
+            value: <CopyableValue value={payload.ssid} />,
+          },
+          { title: "Security", value: payload.security ?? "Not specified" },
+          payload.password
+            ? {
+                title: "Password",
+                value: <CopyableValue value={payload.password} secret />,
+              }
+            : { title: "Password", value: "None" },
+          { title: "Hidden network", value: payload.hidden },
+        ],
+        actions: [],
+      };
+    case "contact": {
+      const { url } = payload;
+      return {
+        rows: [
+          optionalRow("Name", payload.name),
+          optionalRow("Organization", payload.organization),
+          optionalRow("Title", payload.title),
+          payload.phones.length
+            ? { title: "Phone", value: hrefList("tel", payload.phones) }
+            : undefined,
+          payload.emails.length
+            ? { title: "Email", value: hrefList("mailto", payload.emails) }
+            : undefined,
+          optionalRow("Address", payload.address),
+          optionalRow("Website", payload.url),
+          optionalRow("Note", payload.note),
+        ],
+        actions: url
+          ? [{ label: "Open website", onClick: () => onOpenLink(url) }]
+          : [],
+      };
+    }
+    case "email":
+      return {
+        rows: [
+          payload.to.length
+            ? { title: "To", value: hrefList("mailto", payload.to) }
+            : undefined,
+          optionalRow("Cc", payload.cc.join(", ")),
+          optionalRow("Bcc", payload.bcc.join(", ")),
+          optionalRow("Subject", payload.subject),
+          optionalRow("Message", payload.body),
+        ],
+        actions: payload.raw.toLowerCase().startsWith("mailto:")
+          ? [
+              {
+                label: "Compose",
+                // Hands the mailto: link to the system mail app.
+                onClick: () => {
+                  window.location.href = payload.raw;
+                },
+              },
+            ]
+          : [],
+      };
+    case "phone":
+      return {
+        rows: [{ title: "Number", value: hrefList("tel", [payload.number]) }],
+        actions: [],
+      };
+    case "sms":
+      return {
+        rows: [
+          { title: "Number", value: hrefList("sms", [payload.number]) },
+          optionalRow("Message", payload.body),
+        ],
+        actions: [],
+      };
+    case "geo": {
+      const coordinates = `${payload.latitude},${payload.longitude}`;
+      const query = payload.query
+        ? `${coordinates} (${payload.query})`
+        : coordinates;
+      return {
+        rows: [
+          { title: "Latitude", value: String(payload.latitude) },
+          { title: "Longitude", value: String(payload.longitude) },
+          optionalRow(
+            "Altitude",
+            payload.altitude === null ? null : `${payload.altitude} m`,
+          ),
+          optionalRow("Place", payload.query),
+        ],
+        actions: [
+          {
+            label: "Open in maps",
+            onClick: () =>
+              openUrl(
+                `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`,
+              ),
+          },
+        ],
+      };
+    }
+    case "otp":
+      return {
+        rows: [
+          optionalRow("Issuer", payload.issuer),
+          { title: "Account", value: payload.account },
+          {
+            title: "Type",
+            value:
+              payload.otpType === "totp"
+                ? `Time-based, every ${payload.period} s`
+                : `Counter-based, counter ${payload.counter ?? 0}`,
+          },
+          { title: "Digits", value: String(payload.digits) },
+          { title: "Algorithm", value: payload.algorithm },
+          {
+            title: "Secret",
+            value: <CopyableValue value={payload.secret} secret />,
+          },
+        ],
+        actions: [],
+      };
+    case "payment":
+      return {
+        rows: [
+          { title: "Recipient", value: payload.name },
+          { title: "IBAN", value: <CopyableValue value={payload.iban} /> },
+          optionalRow("BIC", payload.bic),
+          optionalRow(
+            "Amount",
+            payload.amount === null
+              ? null
+              : `${payload.amount.toFixed(2)} ${payload.currency ?? ""}`.trim(),
+          ),
+          optionalRow("Purpose", payload.purpose),
+          optionalRow("Reference", payload.reference),
+          optionalRow("Remittance", payload.remittance),
+        ],
+        actions: [],
+      };
+    case "ton":
+      return {
+        rows: [
+          { title: "Action", value: payload.action },
+          optionalRow("Address", payload.address),
+          ...Object.entries(payload.params).map(([key, value]) => ({
+            title: key,
+            value,
+          })),
+        ],
+        actions: [],
+      };
+    case "gs1": {
+      const { digitalLink } = payload;
+      // The summary fields come first, the remaining elements follow in code order.
+      const summarized = ["01", "10", "17", "21", "30", "37"];
+      return {
+        rows: [
+          optionalRow(
+            "GTIN",
+            payload.gtin && (
+              <span>
+                {payload.gtin}
+                {!payload.gtinValid && (
+                  <span style={{ color: "crimson" }}> (invalid check digit)</span>
+                )}
+              </span>
+            ),
+          ),
+          optionalRow("Batch/lot", payload.batch),
+          optionalRow("Expiry date", payload.expiry),
+          optionalRow("Serial number", payload.serial),
+          optionalRow(
+            "Quantity",
+            payload.quantity === null ? null : String(payload.quantity),
+          ),
+          ...payload.elements
+            .filter((element) => !summarized.includes(element.ai))
+            .map((element) => ({
+              title: `${element.title} (${element.ai})`,
+              value: element.display,
+            })),
+        ],
+        actions: digitalLink
+          ? [
+              {
+                label: "Open product page",
+                onClick: () => onOpenLink(digitalLink),
+              },
+            ]
+          : [],
+      };
+    }
+    case "json":
+      return {
+        rows: [
+          {
+            title: "Value",
+            value: (
+              <pre style={{ margin: 0, whiteSpace: "pre-wrap" }}>
+                {JSON.stringify(payload.value, null, 2)}
+              </pre>
+            ),
+          },
+        ],
+        actions: [],
+      };
+    case "text":
+      return {
+        rows: [{ title: "Text", value: payload.text }],
+        actions: [],
+      };
+  }
+}
+
+/**
+ * Structured view of a scanned payload with the actions that make sense for its type, plus
+ * copy, share and rescan for every type.
+ */
+export function ScanResult({ payload, onOpenLink, onRescan }: ScanResultProps) {
+  const [notice, setNotice] = useState<string | null>(null);
+  const { rows, actions } = describePayload(payload, onOpenLink);
+
+  const copy = async () => {
+    try {
+      await copyTextToClipboard(payload.raw);
+      setNotice("Copied to clipboard.");
+    } catch (e) {
+      log.warn("Copying scanned payload failed", { error: e });
+      setNotice("Copying failed.");
+    }
+  };
+
+  // The system share sheet where available, otherwise Telegram's own share dialog.
+  const share = async () => {
+    setNotice(null);
+    try {
+      if (typeof navigator.share === "function") {
+        await navigator.share({ text: payload.raw });
+      } else if (shareURL.isAvailable()) {
+        shareURL(payloadLink(payload) ?? payload.raw);
+      } else {
+        setNotice("Sharing is not supported in this client.");
+      }
+    } catch (e) {
+      // Closing the share sheet rejects with an AbortError.
+      if (e instanceof Error && e.name === "AbortError") return;
+      log.warn("Sharing scanned payload failed", { error: e });
+      setNotice("Sharing failed.");
+    }
+  };
+
+  const allActions: ResultAction[] = [
+    ...actions,
+    { label: "Copy", onClick: () => void copy() },
+    { label: "Share", onClick: () => void share() },
+    { label: "Scan again", onClick: onRescan },
+  ];
+
+  return (
+    <List style={{ width: "100%", padding: 0 }}>
+      <DisplayData
+        header={TYPE_LABELS[payload.type]}
+        rows={rows.filter((row) => row !== undefined)}
+      />
+      <Section>
+        <div
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            gap: 8,
+            padding: 12,
+          }}
+        >
+          {allActions.map(({ label, onClick }, i) => (
+            <Button
+              key={label}
+              mode={i === 0 ? "filled" : "bezeled"}
+              size="s"
+              onClick={onClick}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        {notice && (
+          <Text style={{ display: "block", padding: "0 12px 12px" }}>
+            {notice}
+          </Text>
+        )}
+      </Section>
+    </List>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import {
+  Button,
+  Input,
+  List,
+  Modal,
+  Placeholder,
+  Section,
+  Text,
+} from "@telegram-apps/telegram-ui";
+import {
+  TonConnectButton,
+  UserRejectsError,
+  useTonConnectUI,
+  useTonWallet,
+} from "@tonconnect/ui-react";
+
+import { DisplayData } from "@/components/DisplayData/DisplayData.tsx";
+import {
+  buildTransferRequest,
+  formatUnits,
+  parseDecimalUnits,
+  type TonTransfer,
+} from "@/ton/transfer";
+
+interface TonTransferSheetProps {
+  transfer: TonTransfer;
+  onClose: () => void;
+}
+
+type SendState =
+  | { status: "idle" }
+  | { status: "sending" }
+  | { status: "sent"; boc: string }
+  | { status: "failed"; message: string };
+
+/**
+ * Confirmation sheet for a scanned `ton://transfer` link. Pays it through TON Connect, asking
+ * the user to connect a wallet first if needed.
+ */
+export function TonTransferSheet({ transfer, onClose }: TonTransferSheetProps) {
+  const wallet = useTonWallet();
+  const [tonConnectUI] = useTonConnectUI();
+
+  // Links without an amount let the payer choose it. Jetton amounts are in base units.
+  const [amountInput, setAmountInput] = useState("");
+  const [state, setState] = useState<SendState>({ status: "idle" });
+
+  const amount =
+    transfer.amount ??
+    (transfer.jetton
+      ? /^\d+$/.test(amountInput.trim())
+        ? BigInt(amountInput.trim())
+        : null
+      : parseDecimalUnits(amountInput));
+
+  const handlePay = async () => {
+    if (!wallet || amount === null) return;
+    setState({ status: "sending" });
+
+    try {
+      const request = await buildTransferRequest(
+        { ...transfer, amount },
+        { address: wallet.account.address, chain: wallet.account.chain },
+      );
+      const { boc } = await tonConnectUI.sendTransaction(request);
+      setState({ status: "sent", boc });
+    } catch (e) {
+      setState({
+        status: "failed",
+        message:
+          e instanceof UserRejectsError
+            ? "The transaction was rejected in the wallet."
+            : e instanceof Error
+              ? e.message
+              : String(e),
+      });
+    }
+  };
+
+  const rows = [
+    { title: "Recipient", value: transfer.address },
+    transfer.jetton
+      ? { title: "Jetton", value: transfer.jetton }
+      : undefined,
+    transfer.amount !== null
+      ? {
+          title: transfer.jetton ? "Amount (base units)" : "Amount",
+          value: transfer.jetton
+            ? transfer.amount.toString()
+            : `${formatUnits(transfer.amount)} TON`,
+        }
+      : undefined,
+    transfer.text ? { title: "Comment", value: transfer.text } : undefined,
+    transfer.bin ? { title: "Payload", value: transfer.bin } : undefined,
+    transfer.expiresAt
+      ? {
+          title: "Expires",
+          value: new Date(transfer.expiresAt * 1000).toLocaleString(),
+        }
+      : undefined,
+  ].filter((row) => row !== undefined);
+
+  return (
+    <Modal
+      open
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+      header={<Modal.Header>TON transfer</Modal.Header>}
+    >
+      <List>
+        <DisplayData header="Payment" rows={rows} />
+
+        {transfer.amount === null && state.status === "idle" && (
+          <Section header="Amount">
+            <Input
+              header={transfer.jetton ? "Jetton base units" : "TON"}
+              placeholder={transfer.jetton ? "1000000" : "0.5"}
+              inputMode="decimal"
+              value={amountInput}
+              onChange={(e) => setAmountInput(e.target.value)}
+            />
+          </Section>
+        )}
+
+        {state.status === "sent" ? (
+          <Placeholder
+            header="Sent"
+            description="The transaction was signed and sent to the network."
+          >
+            <Button size="l" stretched onClick={onClose}>
+              Done
+            </Button>
+          </Placeholder>
+        ) : !wallet ? (
+          <Placeholder
+            header="Connect a wallet"
+            description="Connect a TON wallet to pay this request."
+          >
+            <TonConnectButton />
+          </Placeholder>
+        ) : (
+          <div style={{ padding: 10 }}>
+            {state.status === "failed" && (
+              <Text style={{ color: "var(--tg-theme-destructive-text-color)" }}>
+                {state.message}
+              </Text>
+            )}
+            <Button
+              size="l"
+              stretched
+              loading={state.status === "sending"}
+              disabled={amount === null || amount <= 0n}
+              onClick={() => void handlePay()}
+            >
+              Confirm & Pay
+            </Button>
+            <Button
+              mode="plain"
+              size="s"
+              stretched
+              onClick={onClose}
+              style={{ marginTop: 8 }}
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
+      </List>
+    </Modal>
+  );
+}
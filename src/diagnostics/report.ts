@@ -0,0 +1,277 @@
+import {
+  biometry,
+  cloudStorage,
+  hapticFeedback,
+  initData,
+  isTMA,
+  openLink,
+  openTelegramLink,
+  popup,
+  qrScanner,
+  retrieveLaunchParams,
+  supports,
+  viewport,
+  type MethodName,
+  type SafeAreaInsets,
+} from "@tma.js/sdk-react";
+
+import { redactText } from "@/logging/logger";
+import { supabase } from "@/supabaseClient";
+
+export interface Capability {
+  /** SDK function as used in the app. */
+  name: string;
+  /** Bridge method the function relies on. */
+  method: MethodName;
+  /** The client version supports the method. */
+  supported: boolean;
+  /** The SDK function can be called right now (environment, support and mount checks). */
+  available: boolean;
+}
+
+export interface ClientInfo {
+  version: string | null;
+  platform: string | null;
+  launchParamsError: string | null;
+  initDataPresent: boolean;
+  userAgent: string;
+  /** With init data secrets redacted. */
+  url: string;
+}
+
+export interface DiagnosticsReport {
+  generatedAt: string;
+  client: ClientInfo;
+  isTma: {
+    basic: boolean;
+    complete: boolean | string;
+  };
+  capabilities: Capability[];
+  /** Null when the viewport is not mounted. */
+  viewport: {
+    width: number;
+    height: number;
+    stableHeight: number;
+    isExpanded: boolean;
+    isFullscreen: boolean;
+    safeArea: SafeAreaInsets;
+    contentSafeArea: SafeAreaInsets;
+  } | null;
+  supabase: {
+    reachable: boolean;
+    latencyMs: number;
+    error: string | null;
+    session: {
+      userId: string;
+      email: string | null;
+      expiresAt: string | null;
+    } | null;
+  };
+}
+
+function describeError(e: unknown): string {
+  return e instanceof Error ? `${e.name}: ${e.message}` : String(e);
+}
+
+// Every SDK function the app uses, with the bridge method behind it.
+const CAPABILITIES: {
+  name: string;
+  method: MethodName;
+  isAvailable: () => boolean;
+}[] = [
+  {
+    name: "qrScanner.capture",
+    method: "web_app_open_scan_qr_popup",
+    isAvailable: () => qrScanner.capture.isAvailable(),
+  },
+  {
+    name: "openLink",
+    method: "web_app_open_link",
+    isAvailable: () => openLink.isAvailable(),
+  },
+  {
+    name: "openTelegramLink",
+    method: "web_app_open_tg_link",
+    isAvailable: () => openTelegramLink.isAvailable(),
+  },
+  {
+    name: "popup.show",
+    method: "web_app_open_popup",
+    isAvailable: () => popup.show.isAvailable(),
+  },
+  {
+    name: "cloudStorage.getItem",
+    method: "web_app_invoke_custom_method",
+    isAvailable: () => cloudStorage.getItem.isAvailable(),
+  },
+  {
+    name: "biometry.requestAccess",
+    method: "web_app_biometry_request_access",
+    isAvailable: () => biometry.requestAccess.isAvailable(),
+  },
+  {
+    name: "hapticFeedback.impactOccurred",
+    method: "web_app_trigger_haptic_feedback",
+    isAvailable: () => hapticFeedback.impactOccurred.isAvailable(),
+  },
+  {
+    name: "viewport.requestFullscreen",
+    method: "web_app_request_fullscreen",
+    isAvailable: () => viewport.requestFullscreen.isAvailable(),
+  },
+];
+
+async function checkSupabase(): Promise<DiagnosticsReport["supabase"]> {
+  const startedAt = performance.now();
+  // Any response from the server, including an RLS or permission error, means it is reachable.
+  const { error } = await supabase
+    .from("profiles")
+    .select("id", { count: "exact", head: true });
+  const latencyMs = Math.round(performance.now() - startedAt);
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  return {
+    reachable: !error || Boolean(error.code),
+    latencyMs,
+    error: error ? error.message : null,
+    session: session && {
+      userId: session.user.id,
+      email: session.user.email ?? null,
+      expiresAt: session.expires_at
+        ? new Date(session.expires_at * 1000).toISOString()
+        : null,
+    },
+  };
+}
+
+/**
+ * @returns The client version and platform from the launch params, and the runtime.
+ */
+export function getClientInfo(): ClientInfo {
+  let version: string | null = null;
+  let platform: string | null = null;
+  let launchParamsError: string | null = null;
+  try {
+    const lp = retrieveLaunchParams();
+    version = lp.tgWebAppVersion;
+    platform = lp.tgWebAppPlatform;
+  } catch (e) {
+    launchParamsError = describeError(e);
+  }
+
+  let initDataPresent = false;
+  try {
+    initDataPresent = Boolean(initData.raw());
+  } catch {
+    // Not available outside Telegram.
+  }
+
+  return {
+    version,
+    platform,
+    launchParamsError,
+    initDataPresent,
+    userAgent: navigator.userAgent,
+    url: redactText(window.location.href),
+  };
+}
+
+/**
+ * Collects the client, SDK capability, viewport and Supabase state for bug reports.
+ */
+export async function collectDiagnostics(): Promise<DiagnosticsReport> {
+  const client = getClientInfo();
+
+  let complete: boolean | string;
+  try {
+    complete = await isTMA("complete");
+  } catch (e) {
+    complete = describeError(e);
+  }
+
+  const capabilities = CAPABILITIES.map(({ name, method, isAvailable }) => ({
+    name,
+    method,
+    supported: client.version ? supports(method, client.version) : false,
+    available: isAvailable(),
+  }));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    client,
+    isTma: { basic: isTMA(), complete },
+    capabilities,
+    viewport: viewport.isMounted()
+      ? {
+          width: viewport.width(),
+          height: viewport.height(),
+          stableHeight: viewport.stableHeight(),
+          isExpanded: viewport.isExpanded(),
+          isFullscreen: viewport.isFullscreen(),
+          safeArea: viewport.safeAreaInsets(),
+          contentSafeArea: viewport.contentSafeAreaInsets(),
+        }
+      : null,
+    supabase: await checkSupabase().catch((e) => ({
+      reachable: false,
+      latencyMs: 0,
+      error: describeError(e),
+      session: null,
+    })),
+  };
+}
+
+function formatInsets({ top, right, bottom, left }: SafeAreaInsets): string {
+  return `top ${top}, right ${right}, bottom ${bottom}, left ${left}`;
+}
+
+/**
+ * Formats the report as plain text to paste into a bug ticket.
+ */
+export function formatDiagnostics(report: DiagnosticsReport): string {
+  const { client, isTma, capabilities, viewport: vp, supabase: sb } = report;
+  const lines = [
+    `Diagnostics ${report.generatedAt}`,
+    "",
+    "Client",
+    `  version: ${client.version ?? "unknown"}`,
+    `  platform: ${client.platform ?? "unknown"}`,
+    ...(client.launchParamsError
+      ? [`  launch params error: ${client.launchParamsError}`]
+      : []),
+    `  init data present: ${String(client.initDataPresent)}`,
+    `  user agent: ${client.userAgent}`,
+    `  url: ${client.url}`,
+    "",
+    "isTMA",
+    `  basic: ${String(isTma.basic)}`,
+    `  complete: ${String(isTma.complete)}`,
+    "",
+    "Capabilities (supported / available)",
+    ...capabilities.map(
+      (c) =>
+        `  ${c.name} [${c.method}]: ${c.supported ? "yes" : "no"} / ${c.available ? "yes" : "no"}`,
+    ),
+    "",
+    "Viewport",
+    ...(vp
+      ? [
+          `  size: ${vp.width}x${vp.height} (stable height ${vp.stableHeight})`,
+          `  expanded: ${String(vp.isExpanded)}, fullscreen: ${String(vp.isFullscreen)}`,
+          `  safe area: ${formatInsets(vp.safeArea)}`,
+          `  content safe area: ${formatInsets(vp.contentSafeArea)}`,
+        ]
+      : ["  not mounted"]),
+    "",
+    "Supabase",
+    `  reachable: ${String(sb.reachable)} (${sb.latencyMs} ms)`,
+    ...(sb.error ? [`  error: ${sb.error}`] : []),
+    sb.session
+      ? `  session: ${sb.session.userId} ${sb.session.email ?? ""}, expires ${sb.session.expiresAt ?? "never"}`
+      : "  session: none",
+  ];
+  return lines.join("\n");
+}
@@ -0,0 +1,85 @@
+import { openLink, openTelegramLink } from '@tma.js/sdk-react';
+
+import { classifyPayload } from '@/scan/payload';
+
+/**
+ * Kinds of Telegram-native link targets.
+ * - `invite`: private chat invite (t.me/+hash, t.me/joinchat/hash).
+ * - `share`: share link (t.me/share/url?url=...).
+ * - `startapp`: Mini App launch (t.me/bot?startapp=..., t.me/bot/app).
+ * - `bot`: bot start link (t.me/bot?start=...).
+ * - `username`: public username, a bot, a channel, a group or a user.
+ */
+export type TelegramLinkKind =
+  | 'invite'
+  | 'share'
+  | 'startapp'
+  | 'bot'
+  | 'username'
+  | 'other';
+
+export interface TelegramLink {
+  /** The link in the https://t.me/... form expected by `openTelegramLink`. */
+  url: string;
+  kind: TelegramLinkKind;
+}
+
+/**
+ * Hosts serving Telegra.ph-style pages, which Telegram can show in Instant View.
+ */
+const INSTANT_VIEW_HOSTS = ['telegra.ph', 'te.legra.ph', 'graph.org'];
+
+/**
+ * @returns The Telegram-native target of a t.me, telegram.me, tg://resolve or tg://join link, or
+ * null if the link should be opened in the browser.
+ */
+export function parseTelegramLink(url: string): TelegramLink | null {
+  const payload = classifyPayload(url);
+  if (payload.type !== 'telegram' || !payload.url.startsWith('https://t.me/')) {
+    return null;
+  }
+
+  const [first = '', second] = new URL(payload.url).pathname.slice(1).split('/');
+  const { params } = payload;
+
+  let kind: TelegramLinkKind = 'other';
+  if (first.startsWith('+') || first === 'joinchat') {
+    kind = 'invite';
+  } else if (first === 'share') {
+    kind = 'share';
+  } else if (/^[a-z]\w{3,31}$/i.test(first)) {
+    if ('startapp' in params || (second && !/^\d+$/.test(second))) {
+      kind = 'startapp';
+    } else if ('start' in params || 'startgroup' in params) {
+      kind = 'bot';
+    } else if (!second) {
+      kind = 'username';
+    }
+  }
+
+  return { url: payload.url, kind };
+}
+
+function isInstantViewHost(url: string): boolean {
+  try {
+    return INSTANT_VIEW_HOSTS.includes(new URL(url).hostname);
+  } catch {
+    // Not an absolute URL: openLink() reports it, Instant View doesn't apply.
+    return false;
+  }
+}
+
+/**
+ * Opens an external URL the way Telegram expects: Telegram-native targets stay inside Telegram
+ * via `openTelegramLink`, everything else goes through `openLink`, using Instant View where
+ * Telegram supports it.
+ */
+export function openUrl(url: string): void {
+  const telegramLink = parseTelegramLink(url);
+  if (telegramLink) {
+    openTelegramLink(telegramLink.url);
+    return;
+  }
+
+  openLink(url, { tryInstantView: isInstantViewHost(url) });
+}
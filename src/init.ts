@@ -10,6 +10,7 @@ import {
   emitEvent,
   miniApp,
   backButton,
+  settingsButton,
 } from '@tma.js/sdk-react';
 
 /**
@@ -59,6 +60,7 @@ export async function init(options: {
 
   // Mount all components used in the project.
   backButton.mount.ifAvailable();
+  settingsButton.mount.ifAvailable();
   initData.restore();
 
   if (miniApp.mount.isAvailable()) {
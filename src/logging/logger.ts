@@ -0,0 +1,238 @@
+import { copyTextToClipboard } from "@tma.js/sdk-react";
+
+/**
+ * App-wide structured logger. Entries are kept in a ring buffer persisted to localStorage, so
+ * they survive navigation and reloads and can be exported from a device where DevTools are not
+ * available. Secrets (init data hash and signature, access tokens) are redacted before an
+ * entry is stored.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogCategory = "app" | "scanner" | "auth" | "bridge" | "supabase";
+
+export type LogContext = Record<string, unknown>;
+
+export interface LogEntry {
+  id: number;
+  /** ISO timestamp. */
+  time: string;
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+  context?: LogContext;
+}
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+}
+
+export type LogExportFormat = "json" | "text";
+
+const STORAGE_KEY = "app:logs";
+const CAPACITY = 500;
+const REDACTED = "[redacted]";
+
+// Context keys whose values are always secrets.
+const SECRET_KEYS =
+  /^(hash|signature|access_?token|refresh_?token|provider_?token|authorization|apikey)$/i;
+
+let entries: LogEntry[] | null = null;
+let nextId = 1;
+let flushScheduled = false;
+const listeners = new Set<() => void>();
+
+function load(): LogEntry[] {
+  if (entries) return entries;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    entries = stored ? (JSON.parse(stored) as LogEntry[]) : [];
+  } catch {
+    entries = [];
+  }
+  nextId = (entries[entries.length - 1]?.id ?? 0) + 1;
+  return entries;
+}
+
+function flush(): void {
+  flushScheduled = false;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(load()));
+  } catch {
+    // Storage full or unavailable: the entries stay in memory.
+  }
+}
+
+// Entries written just before the page is closed would otherwise be lost.
+window.addEventListener("pagehide", () => {
+  if (flushScheduled) flush();
+});
+
+function scheduleFlush(): void {
+  if (flushScheduled) return;
+  flushScheduled = true;
+  window.setTimeout(flush, 500);
+}
+
+/**
+ * Masks secrets inside a string: `hash` and `signature` init data parameters (plain,
+ * URL-encoded or as JSON fields), bearer tokens and JWTs.
+ */
+export function redactText(text: string): string {
+  return text
+    .replace(
+      /(^|[?&#\s"']|%26|%3F)(hash|signature)(=|%3D)[^&\s"']*?(?=&|%26|[\s"']|$)/gi,
+      `$1$2$3${REDACTED}`,
+    )
+    .replace(
+      /("(?:hash|signature|access_token|refresh_token)"\s*:\s*")[^"]*"/gi,
+      `$1${REDACTED}"`,
+    )
+    .replace(/\b(Bearer\s+)[\w.~+/=-]+/gi, `$1${REDACTED}`)
+    .replace(/\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, REDACTED);
+}
+
+/**
+ * Returns a JSON-safe copy of a value with secrets redacted. Errors are reduced to their name
+ * and message.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return redactText(value);
+  if (value === null || typeof value !== "object") {
+    return typeof value === "bigint" ? value.toString() : value;
+  }
+  if (depth > 5) return "[…]";
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message) };
+  }
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SECRET_KEYS.test(key) ? REDACTED : redact(item, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Describes a scanned value for the log: its type, length and, for links, the host. Scanned
+ * values can hold secrets (OTP keys, Wi-Fi passwords, signed tickets) and logs are persisted
+ * and exportable, so the content itself is never logged.
+ */
+export function describeValue(value: unknown): LogContext {
+  if (typeof value !== "string") return { type: typeof value, length: null };
+  let host: string | undefined;
+  try {
+    const url = new URL(value);
+    if (url.protocol === "http:" || url.protocol === "https:") host = url.host;
+  } catch {
+    // Not a URL.
+  }
+  return { type: "string", length: value.length, ...(host && { host }) };
+}
+
+function write(
+  level: LogLevel,
+  category: LogCategory,
+  message: string,
+  context?: LogContext,
+): void {
+  const buffer = load();
+  const entry: LogEntry = {
+    id: nextId++,
+    time: new Date().toISOString(),
+    level,
+    category,
+    message: redactText(message),
+    ...(context && { context: redact(context) as LogContext }),
+  };
+
+  entries = [...buffer.slice(-(CAPACITY - 1)), entry];
+
+  if (import.meta.env.DEV || level === "error") {
+    console[level](`[${category}] ${entry.message}`, entry.context ?? "");
+  }
+
+  scheduleFlush();
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * @returns A logger writing entries with the given category.
+ */
+export function logger(category: LogCategory): Logger {
+  return {
+    debug: (message, context) => write("debug", category, message, context),
+    info: (message, context) => write("info", category, message, context),
+    warn: (message, context) => write("warn", category, message, context),
+    error: (message, context) => write("error", category, message, context),
+  };
+}
+
+/**
+ * @returns The buffered entries, oldest first. The array is replaced on every write, so it can
+ * be used as a snapshot.
+ */
+export function getLogEntries(): readonly LogEntry[] {
+  return load();
+}
+
+/**
+ * Calls the listener after every change of the buffer.
+ * @returns A function removing the listener.
+ */
+export function subscribeToLogs(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function clearLogs(): void {
+  entries = [];
+  flush();
+  listeners.forEach((listener) => listener());
+}
+
+export function formatLogEntry(entry: LogEntry): string {
+  const context = entry.context ? ` ${JSON.stringify(entry.context)}` : "";
+  return `${entry.time} ${entry.level.toUpperCase()} [${entry.category}] ${entry.message}${context}`;
+}
+
+export function formatLogs(
+  format: LogExportFormat,
+  logEntries: readonly LogEntry[] = load(),
+): string {
+  return format === "json"
+    ? JSON.stringify(logEntries, null, 2)
+    : logEntries.map(formatLogEntry).join("\n");
+}
+
+/**
+ * Copies the logs to the clipboard.
+ */
+export async function copyLogs(format: LogExportFormat): Promise<void> {
+  await copyTextToClipboard(formatLogs(format));
+}
+
+/**
+ * Shares the logs through the system share sheet, as a file where supported.
+ * @throws If the client can't share.
+ */
+export async function shareLogs(format: LogExportFormat): Promise<void> {
+  const text = formatLogs(format);
+  const file = new File(
+    [text],
+    `logs-${Date.now()}.${format === "json" ? "json" : "txt"}`,
+    { type: format === "json" ? "application/json" : "text/plain" },
+  );
+
+  if (navigator.canShare?.({ files: [file] })) {
+    await navigator.share({ files: [file], title: "App logs" });
+  } else if (typeof navigator.share === "function") {
+    await navigator.share({ text, title: "App logs" });
+  } else {
+    throw new Error("Sharing is not supported in this client.");
+  }
+}
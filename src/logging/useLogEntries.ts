@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from "react";
+
+import {
+  getLogEntries,
+  subscribeToLogs,
+  type LogEntry,
+} from "@/logging/logger";
+
+/**
+ * @returns The buffered log entries, oldest first. Re-renders on every new entry.
+ */
+export function useLogEntries(): readonly LogEntry[] {
+  return useSyncExternalStore(subscribeToLogs, getLogEntries);
+}
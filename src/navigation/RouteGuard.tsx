@@ -0,0 +1,28 @@
+import type { ReactNode } from "react";
+import { Navigate } from "react-router-dom";
+
+import { hasRole, type Role } from "@/auth/roles";
+import { useRole } from "@/auth/useCan";
+import { logger } from "@/logging/logger";
+
+const log = logger("auth");
+
+/**
+ * Renders the route only for the given roles and redirects everyone else to the start page,
+ * e.g. when a link to a restricted page was shared.
+ */
+export function RouteGuard({
+  path,
+  roles,
+  children,
+}: {
+  path: string;
+  roles?: Role[];
+  children: ReactNode;
+}) {
+  const role = useRole();
+  if (hasRole(role, roles)) return children;
+
+  log.warn("Route not allowed for role, redirecting", { path, role });
+  return <Navigate to="/" replace />;
+}
@@ -1,23 +1,63 @@
 import type { ComponentType, JSX } from 'react';
 
+import type { Role } from '@/auth/roles';
+import { AdminPage } from '@/pages/AdminPage.tsx';
+import { CheckInPage } from '@/pages/CheckInPage.tsx';
+import { DiagnosticsPage } from '@/pages/DiagnosticsPage.tsx';
+import { GeneratePage } from '@/pages/GeneratePage.tsx';
+import { HistoryPage } from '@/pages/HistoryPage.tsx';
 import { IndexPage } from '@/pages/IndexPage/IndexPage';
 import { InitDataPage } from '@/pages/InitDataPage.tsx';
 import { LaunchParamsPage } from '@/pages/LaunchParamsPage.tsx';
+import { SettingsPage } from '@/pages/SettingsPage.tsx';
 import { ThemeParamsPage } from '@/pages/ThemeParamsPage.tsx';
 import { TONConnectPage } from '@/pages/TONConnectPage/TONConnectPage';
 
-interface Route {
+export interface Route {
   path: string;
   Component: ComponentType;
   title?: string;
   icon?: JSX.Element;
+  /** Roles that may open the route. Every signed-in user when omitted. */
+  roles?: Role[];
 }
 
 export const routes: Route[] = [
   { path: '/', Component: IndexPage },
-  { path: '/init-data', Component: InitDataPage, title: 'Init Data' },
-  { path: '/theme-params', Component: ThemeParamsPage, title: 'Theme Params' },
-  { path: '/launch-params', Component: LaunchParamsPage, title: 'Launch Params' },
+  { path: '/admin', Component: AdminPage, title: 'Admin', roles: ['admin'] },
+  {
+    path: '/check-in',
+    Component: CheckInPage,
+    title: 'Event Check-in',
+    roles: ['admin', 'staff'],
+  },
+  {
+    path: '/diagnostics',
+    Component: DiagnosticsPage,
+    title: 'Diagnostics',
+    roles: ['admin', 'staff'],
+  },
+  { path: '/generate', Component: GeneratePage, title: 'QR Generator' },
+  { path: '/history', Component: HistoryPage, title: 'Scan History' },
+  {
+    path: '/init-data',
+    Component: InitDataPage,
+    title: 'Init Data',
+    roles: ['admin'],
+  },
+  { path: '/settings', Component: SettingsPage, title: 'Settings' },
+  {
+    path: '/theme-params',
+    Component: ThemeParamsPage,
+    title: 'Theme Params',
+    roles: ['admin'],
+  },
+  {
+    path: '/launch-params',
+    Component: LaunchParamsPage,
+    title: 'Launch Params',
+    roles: ['admin'],
+  },
   {
     path: '/ton-connect',
     Component: TONConnectPage,
@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useMemo, useState, type FC } from "react";
+import {
+  Button,
+  Cell,
+  Input,
+  List,
+  Placeholder,
+  Section,
+  Select,
+  Spinner,
+  Text,
+} from "@telegram-apps/telegram-ui";
+import { popup } from "@tma.js/sdk-react";
+
+import {
+  listProfiles,
+  runAdminAction,
+  type AdminAction,
+  type AdminProfile,
+} from "@/auth/admin";
+import { ROLES, type Role } from "@/auth/roles";
+import { Page } from "@/components/Page.tsx";
+import { logger } from "@/logging/logger";
+
+const log = logger("auth");
+
+const DONE_TEXT: Record<AdminAction["action"], string> = {
+  unbind_telegram: "Telegram account unbound.",
+  revoke_access: "Access revoked.",
+  set_role: "Role changed.",
+  resend_invite: "Invite sent.",
+};
+
+/**
+ * Asks before an action the user can't undo themselves, using the Telegram popup when
+ * available.
+ */
+async function confirmAction(title: string, message: string) {
+  if (!popup.show.isAvailable()) return window.confirm(message);
+  const buttonId = await popup.show({
+    title,
+    message,
+    buttons: [
+      { id: "confirm", type: "destructive", text: title },
+      { type: "cancel" },
+    ],
+  });
+  return buttonId === "confirm";
+}
+
+function formatLastLogin(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString() : "Never";
+}
+
+/**
+ * Lists profiles with their bound Telegram account, last login and role, and runs the admin
+ * actions on them.
+ */
+export const AdminPage: FC = () => {
+  const [profiles, setProfiles] = useState<AdminProfile[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  // The profile whose action is running.
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      setProfiles(await listProfiles());
+    } catch (e) {
+      log.error("Loading profiles failed", { error: e });
+      setError(e instanceof Error ? e.message : String(e));
+      setProfiles([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle || !profiles) return profiles;
+    return profiles.filter(
+      (profile) =>
+        profile.email?.toLowerCase().includes(needle) ||
+        String(profile.telegramId ?? "").includes(needle),
+    );
+  }, [profiles, query]);
+
+  const run = async (action: AdminAction) => {
+    setBusyId(action.profileId);
+    setNotice(null);
+    setError(null);
+    try {
+      await runAdminAction(action);
+      log.info("Admin action done", {
+        action: action.action,
+        profileId: action.profileId,
+      });
+      setNotice(DONE_TEXT[action.action]);
+      await load();
+    } catch (e) {
+      log.error("Admin action failed", {
+        action: action.action,
+        profileId: action.profileId,
+        error: e,
+      });
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const unbind = async (profile: AdminProfile) => {
+    if (
+      await confirmAction(
+        "Unbind",
+        `Unbind Telegram account ${profile.telegramId} from ${profile.email}? They bind again on their next login.`,
+      )
+    ) {
+      await run({ action: "unbind_telegram", profileId: profile.id });
+    }
+  };
+
+  const revoke = async (profile: AdminProfile) => {
+    if (
+      await confirmAction(
+        "Revoke",
+        `Revoke access for ${profile.email}? They are signed out on all devices.`,
+      )
+    ) {
+      await run({ action: "revoke_access", profileId: profile.id });
+    }
+  };
+
+  return (
+    <Page>
+      <List>
+        <Section
+          header="Profiles"
+          footer="Every action is recorded in the admin audit log."
+        >
+          <Input
+            header="Search"
+            placeholder="Email or Telegram ID"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </Section>
+
+        {(error || notice) && (
+          <Text
+            style={{
+              display: "block",
+              padding: "0 16px",
+              color: error ? "crimson" : undefined,
+            }}
+          >
+            {error ?? notice}
+          </Text>
+        )}
+
+        {visible === null ? (
+          <Placeholder description="Loading profiles...">
+            <Spinner size="l" />
+          </Placeholder>
+        ) : visible.length === 0 ? (
+          <Placeholder header="No profiles" />
+        ) : (
+          visible.map((profile) => {
+            const busy = busyId === profile.id;
+            return (
+              <Section
+                key={profile.id}
+                header={profile.email ?? profile.id}
+                footer={profile.revokedAt ? "Access revoked" : undefined}
+              >
+                <Cell readOnly after={profile.telegramId ?? "Not bound"}>
+                  Telegram ID
+                </Cell>
+                <Cell readOnly after={formatLastLogin(profile.lastSignInAt)}>
+                  Last login
+                </Cell>
+                <Select
+                  header="Role"
+                  value={profile.role}
+                  disabled={busyId !== null}
+                  onChange={(e) =>
+                    void run({
+                      action: "set_role",
+                      profileId: profile.id,
+                      role: e.target.value as Role,
+                    })
+                  }
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {role}
+                    </option>
+                  ))}
+                </Select>
+                <div
+                  style={{
+                    display: "flex",
+                    flexWrap: "wrap",
+                    gap: 8,
+                    padding: 12,
+                  }}
+                >
+                  <Button
+                    mode="bezeled"
+                    size="s"
+                    loading={busy}
+                    disabled={busyId !== null || profile.telegramId === null}
+                    onClick={() => void unbind(profile)}
+                  >
+                    Unbind Telegram
+                  </Button>
+                  <Button
+                    mode="bezeled"
+                    size="s"
+                    disabled={busyId !== null || !profile.email}
+                    onClick={() =>
+                      void run({
+                        action: "resend_invite",
+                        profileId: profile.id,
+                      })
+                    }
+                  >
+                    Resend invite
+                  </Button>
+                  <Button
+                    mode="plain"
+                    size="s"
+                    disabled={busyId !== null || profile.revokedAt !== null}
+                    onClick={() => void revoke(profile)}
+                  >
+                    Revoke access
+                  </Button>
+                </div>
+              </Section>
+            );
+          })
+        )}
+      </List>
+    </Page>
+  );
+};
@@ -0,0 +1,371 @@
+import { useCallback, useEffect, useState, type FC } from "react";
+import { hapticFeedback } from "@tma.js/sdk-react";
+import {
+  Button,
+  Cell,
+  List,
+  Placeholder,
+  Section,
+  Select,
+  Spinner,
+} from "@telegram-apps/telegram-ui";
+
+import { Page } from "@/components/Page.tsx";
+import {
+  findCheckIn,
+  findTicket,
+  listEvents,
+  loadEvent,
+  pendingCheckIns,
+  recordCheckIn,
+  syncCheckIns,
+  type CheckInEvent,
+  type EventCache,
+} from "@/checkin/store";
+import { base64UrlDecode, verifyTicket, type Ticket } from "@/checkin/ticket";
+import { useQrCapture } from "@/scan/useQrCapture";
+
+type CheckInResult =
+  | { status: "checked_in"; ticket: Ticket; name: string | null }
+  | { status: "duplicate"; ticket: Ticket; name: string | null; at: string }
+  | { status: "revoked"; ticket: Ticket; name: string | null }
+  | { status: "expired"; ticket: Ticket }
+  | { status: "wrong_event"; ticket: Ticket }
+  | { status: "forged" }
+  | { status: "malformed" };
+
+interface ResultEntry {
+  id: number;
+  scannedAt: Date;
+  result: CheckInResult;
+}
+
+const RESULT_COLORS: Record<CheckInResult["status"], string> = {
+  checked_in: "#2e7d32",
+  duplicate: "#ef6c00",
+  revoked: "crimson",
+  expired: "crimson",
+  wrong_event: "crimson",
+  forged: "crimson",
+  malformed: "crimson",
+};
+
+function describeResult(result: CheckInResult): {
+  title: string;
+  details: string;
+} {
+  const attendee =
+    "ticket" in result
+      ? ("name" in result && result.name) || result.ticket.attendeeId
+      : "";
+
+  switch (result.status) {
+    case "checked_in":
+      return { title: "Checked in", details: attendee };
+    case "duplicate":
+      return {
+        title: "Already checked in",
+        details: `${attendee}, at ${new Date(result.at).toLocaleString()}`,
+      };
+    case "revoked":
+      return { title: "Ticket revoked", details: attendee };
+    case "expired":
+      return {
+        title: "Ticket expired",
+        details: `${attendee}, expired ${new Date(result.ticket.expiresAt * 1000).toLocaleString()}`,
+      };
+    case "wrong_event":
+      return { title: "Ticket for another event", details: attendee };
+    case "forged":
+      return {
+        title: "Invalid ticket",
+        details: "The signature does not match this event's key.",
+      };
+    case "malformed":
+      return { title: "Not a ticket", details: "The QR code is not an event ticket." };
+  }
+}
+
+function notifyHaptic(result: CheckInResult): void {
+  if (!hapticFeedback.notificationOccurred.isAvailable()) return;
+  hapticFeedback.notificationOccurred(
+    result.status === "checked_in"
+      ? "success"
+      : result.status === "duplicate"
+        ? "warning"
+        : "error",
+  );
+}
+
+export const CheckInPage: FC = () => {
+  const [events, setEvents] = useState<CheckInEvent[] | null>(null);
+  const [eventId, setEventId] = useState("");
+  const [cache, setCache] = useState<EventCache | null>(null);
+  // True when the event data comes from the local cache because the fetch failed.
+  const [offline, setOffline] = useState(false);
+  const [loadingEvent, setLoadingEvent] = useState(false);
+  const [results, setResults] = useState<ResultEntry[]>([]);
+  const [pending, setPending] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const capture = useQrCapture();
+
+  useEffect(() => {
+    listEvents().then(
+      ({ events: loaded, offline: fromCache }) => {
+        setEvents(loaded);
+        setOffline(fromCache);
+        if (loaded.length === 1) setEventId(loaded[0].id);
+      },
+      (e) => {
+        setError(e instanceof Error ? e.message : String(e));
+        setEvents([]);
+      },
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!eventId) {
+      setCache(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingEvent(true);
+    setError(null);
+    setResults([]);
+    loadEvent(eventId)
+      .then(
+        ({ cache: loaded, offline: fromCache }) => {
+          if (cancelled) return;
+          setCache(loaded);
+          setOffline(fromCache);
+          setPending(pendingCheckIns(eventId).length);
+        },
+        (e) => {
+          if (cancelled) return;
+          setCache(null);
+          setError(e instanceof Error ? e.message : String(e));
+        },
+      )
+      .finally(() => {
+        if (!cancelled) setLoadingEvent(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId]);
+
+  const sync = useCallback(async () => {
+    if (!pendingCheckIns().length) return;
+    setSyncing(true);
+    setSyncNotice(null);
+    try {
+      const { synced, conflicts, failed } = await syncCheckIns();
+      const parts = [`${synced} uploaded`];
+      if (conflicts.length) {
+        parts.push(
+          `${conflicts.length} already checked in on another device (${conflicts
+            .map((c) => c.attendee_id)
+            .join(", ")})`,
+        );
+      }
+      if (failed) parts.push(`${failed} still pending`);
+      setSyncNotice(`Sync: ${parts.join(", ")}.`);
+    } catch (e) {
+      setSyncNotice(
+        `Sync failed: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    } finally {
+      setSyncing(false);
+      setPending(eventId ? pendingCheckIns(eventId).length : 0);
+    }
+  }, [eventId]);
+
+  // Upload queued check-ins whenever the connection comes back.
+  useEffect(() => {
+    const handleOnline = () => void sync();
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [sync]);
+
+  const checkTicket = async (raw: string) => {
+    if (!cache) return;
+
+    let result: CheckInResult;
+    let updated = cache;
+    try {
+      const verdict = await verifyTicket(
+        raw,
+        cache.event.id,
+        base64UrlDecode(cache.event.ticket_public_key),
+      );
+
+      if (verdict.status !== "valid") {
+        result = verdict;
+      } else {
+        const { ticket } = verdict;
+        const issued = findTicket(cache, ticket.attendeeId);
+        const name = issued?.attendee_name ?? null;
+        const earlier = findCheckIn(cache, ticket.attendeeId);
+
+        if (issued?.revoked) {
+          result = { status: "revoked", ticket, name };
+        } else if (earlier) {
+          result = { status: "duplicate", ticket, name, at: earlier.checked_in_at };
+        } else {
+          updated = recordCheckIn(cache, ticket.attendeeId);
+          result = { status: "checked_in", ticket, name };
+        }
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+
+    setCache(updated);
+    setPending(pendingCheckIns(cache.event.id).length);
+    setResults((prev) =>
+      [{ id: Date.now(), scannedAt: new Date(), result }, ...prev].slice(0, 20),
+    );
+    notifyHaptic(result);
+
+    if (result.status === "checked_in" && navigator.onLine) void sync();
+  };
+
+  const scanTicket = async () => {
+    if (!cache) return;
+    setError(null);
+
+    const end = await capture.open({ text: `Check-in: ${cache.event.name}` });
+    if (end.status === "result") {
+      void checkTicket(end.value);
+    } else if (end.status === "unsupported") {
+      setError(end.reason);
+    } else if (end.status === "error") {
+      setError(end.message);
+    }
+  };
+
+  const latest = results[0];
+
+  return (
+    <Page>
+      <List>
+        <Section
+          header="Event"
+          footer={
+            cache
+              ? `${offline ? "Offline: using data cached" : "Data loaded"} ${new Date(cache.fetchedAt).toLocaleString()}. Tickets are verified on the device.`
+              : undefined
+          }
+        >
+          {events === null ? (
+            <Placeholder description="Loading events...">
+              <Spinner size="l" />
+            </Placeholder>
+          ) : (
+            <Select
+              header="Event"
+              value={eventId}
+              onChange={(e) => setEventId(e.target.value)}
+            >
+              <option value="">Choose an event</option>
+              {events.map((event) => (
+                <option key={event.id} value={event.id}>
+                  {event.name}
+                </option>
+              ))}
+            </Select>
+          )}
+        </Section>
+
+        {error && (
+          <Section footer={error}>
+            <Cell readOnly>Something went wrong</Cell>
+          </Section>
+        )}
+
+        {loadingEvent && (
+          <Placeholder description="Loading event data...">
+            <Spinner size="l" />
+          </Placeholder>
+        )}
+
+        {cache && !loadingEvent && (
+          <>
+            <Section header="Door">
+              <Cell readOnly after={String(cache.checkIns.length)}>
+                Checked in
+              </Cell>
+              <Cell readOnly after={String(cache.tickets.length)}>
+                Tickets issued
+              </Cell>
+              <Cell readOnly after={String(pending)}>
+                Waiting for upload
+              </Cell>
+              <div style={{ display: "flex", gap: 8, padding: 12 }}>
+                <Button size="m" stretched onClick={() => void scanTicket()}>
+                  Scan ticket
+                </Button>
+                <Button
+                  size="m"
+                  mode="bezeled"
+                  loading={syncing}
+                  disabled={!pending}
+                  onClick={() => void sync()}
+                >
+                  Sync now
+                </Button>
+              </div>
+              {syncNotice && (
+                <Cell readOnly multiline>
+                  {syncNotice}
+                </Cell>
+              )}
+            </Section>
+
+            {latest && (
+              <Section header="Last scan">
+                <Cell
+                  readOnly
+                  multiline
+                  description={describeResult(latest.result).details}
+                >
+                  <span
+                    style={{
+                      color: RESULT_COLORS[latest.result.status],
+                      fontWeight: 600,
+                    }}
+                  >
+                    {describeResult(latest.result).title}
+                  </span>
+                </Cell>
+              </Section>
+            )}
+
+            {results.length > 1 && (
+              <Section header="Earlier scans">
+                {results.slice(1).map((entry) => (
+                  <Cell
+                    key={entry.id}
+                    readOnly
+                    multiline
+                    subhead={entry.scannedAt.toLocaleTimeString()}
+                    description={describeResult(entry.result).details}
+                  >
+                    <span style={{ color: RESULT_COLORS[entry.result.status] }}>
+                      {describeResult(entry.result).title}
+                    </span>
+                  </Cell>
+                ))}
+              </Section>
+            )}
+          </>
+        )}
+      </List>
+    </Page>
+  );
+};
@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useState, type FC } from "react";
+import { copyTextToClipboard, type SafeAreaInsets } from "@tma.js/sdk-react";
+import {
+  Button,
+  Cell,
+  List,
+  Placeholder,
+  Section,
+  Spinner,
+} from "@telegram-apps/telegram-ui";
+
+import { DisplayData } from "@/components/DisplayData/DisplayData.tsx";
+import { Page } from "@/components/Page.tsx";
+import {
+  collectDiagnostics,
+  formatDiagnostics,
+  type DiagnosticsReport,
+} from "@/diagnostics/report";
+
+function formatInsets({ top, right, bottom, left }: SafeAreaInsets): string {
+  return `${top} / ${right} / ${bottom} / ${left}`;
+}
+
+export const DiagnosticsPage: FC = () => {
+  const [report, setReport] = useState<DiagnosticsReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setNotice(null);
+    try {
+      setReport(await collectDiagnostics());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const copyReport = async () => {
+    if (!report) return;
+    try {
+      await copyTextToClipboard(formatDiagnostics(report));
+      setNotice("Report copied to clipboard.");
+    } catch (e) {
+      setNotice(`Copy failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  if (!report) {
+    return (
+      <Page>
+        <Placeholder description="Collecting diagnostics...">
+          <Spinner size="l" />
+        </Placeholder>
+      </Page>
+    );
+  }
+
+  const { client, isTma, capabilities, viewport, supabase } = report;
+
+  return (
+    <Page>
+      <List>
+        <Section footer={notice ?? undefined}>
+          <div style={{ display: "flex", gap: 8, padding: 12 }}>
+            <Button size="m" stretched onClick={() => void copyReport()}>
+              Copy report
+            </Button>
+            <Button
+              size="m"
+              mode="bezeled"
+              loading={loading}
+              onClick={() => void refresh()}
+            >
+              Refresh
+            </Button>
+          </div>
+        </Section>
+
+        <DisplayData
+          header="Client"
+          rows={[
+            { title: "Version", value: client.version ?? undefined },
+            { title: "Platform", value: client.platform ?? undefined },
+            ...(client.launchParamsError
+              ? [{ title: "Launch params error", value: client.launchParamsError }]
+              : []),
+            { title: "Init data present", value: client.initDataPresent },
+            { title: "isTMA()", value: isTma.basic },
+            { title: "isTMA('complete')", value: isTma.complete },
+            { title: "User agent", value: client.userAgent },
+          ]}
+        />
+
+        <Section
+          header="Capabilities"
+          footer="Supported: the client version has the method. Available: the app can call it now."
+        >
+          {capabilities.map((capability) => (
+            <Cell
+              key={capability.name}
+              readOnly
+              subtitle={capability.method}
+              after={
+                <span
+                  style={{
+                    color: capability.available ? "#2e7d32" : "crimson",
+                  }}
+                >
+                  {capability.supported ? "supported" : "unsupported"}
+                  {" / "}
+                  {capability.available ? "available" : "unavailable"}
+                </span>
+              }
+            >
+              {capability.name}
+            </Cell>
+          ))}
+        </Section>
+
+        {viewport ? (
+          <DisplayData
+            header="Viewport"
+            rows={[
+              { title: "Size", value: `${viewport.width} x ${viewport.height}` },
+              { title: "Stable height", value: String(viewport.stableHeight) },
+              { title: "Expanded", value: viewport.isExpanded },
+              { title: "Fullscreen", value: viewport.isFullscreen },
+              {
+                title: "Safe area (top / right / bottom / left)",
+                value: formatInsets(viewport.safeArea),
+              },
+              {
+                title: "Content safe area (top / right / bottom / left)",
+                value: formatInsets(viewport.contentSafeArea),
+              },
+            ]}
+          />
+        ) : (
+          <Section header="Viewport">
+            <Cell readOnly>Not mounted</Cell>
+          </Section>
+        )}
+
+        <DisplayData
+          header="Supabase"
+          rows={[
+            { title: "Reachable", value: supabase.reachable },
+            { title: "Latency", value: `${supabase.latencyMs} ms` },
+            ...(supabase.error
+              ? [{ title: "Error", value: supabase.error }]
+              : []),
+            {
+              title: "Session",
+              value: supabase.session
+                ? `${supabase.session.email ?? supabase.session.userId}, expires ${
+                    supabase.session.expiresAt
+                      ? new Date(supabase.session.expiresAt).toLocaleString()
+                      : "never"
+                  }`
+                : "none",
+            },
+          ]}
+        />
+      </List>
+    </Page>
+  );
+};
@@ -0,0 +1,351 @@
+import { useMemo, useState, type FC } from "react";
+import {
+  Button,
+  Cell,
+  Input,
+  List,
+  Placeholder,
+  Section,
+  Select,
+  Switch,
+  Text,
+  Textarea,
+} from "@telegram-apps/telegram-ui";
+import {
+  initData,
+  shareURL,
+  themeParams,
+  useSignal,
+} from "@tma.js/sdk-react";
+
+import { Page } from "@/components/Page.tsx";
+import { encodeQr, type QrCode } from "@/qr/encoder";
+import {
+  buildTelegramUserPayload,
+  buildVcardPayload,
+  buildWifiPayload,
+  telegramUserCaption,
+  type ContactPreset,
+  type WifiPreset,
+  type WifiSecurity,
+} from "@/qr/presets";
+import { renderPng, renderSvg } from "@/qr/render";
+import {
+  ERROR_CORRECTION_LEVELS,
+  type ErrorCorrectionLevel,
+} from "@/qr/tables";
+
+type Preset = "text" | "url" | "wifi" | "vcard" | "telegram";
+
+const PRESETS: { value: Preset; label: string }[] = [
+  { value: "text", label: "Plain text" },
+  { value: "url", label: "URL" },
+  { value: "wifi", label: "Wi-Fi network" },
+  { value: "vcard", label: "Contact (vCard)" },
+  { value: "telegram", label: "My Telegram ID" },
+];
+
+const ECL_LABELS: Record<ErrorCorrectionLevel, string> = {
+  L: "Low (7%)",
+  M: "Medium (15%)",
+  Q: "Quartile (25%)",
+  H: "High (30%)",
+};
+
+function download(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Give the browser a moment to start the download before revoking.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export const GeneratePage: FC = () => {
+  const tp = useSignal(themeParams.state);
+  const user = useSignal(initData.state)?.user;
+
+  const [preset, setPreset] = useState<Preset>("text");
+  const [ecl, setEcl] = useState<ErrorCorrectionLevel>("M");
+  const [text, setText] = useState("");
+  const [url, setUrl] = useState("");
+  const [wifi, setWifi] = useState<WifiPreset>({
+    ssid: "",
+    security: "WPA",
+    password: "",
+    hidden: false,
+  });
+  const [contact, setContact] = useState<ContactPreset>({
+    name: "",
+    phone: "",
+    email: "",
+    organization: "",
+    title: "",
+    url: "",
+  });
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const { value, caption } = useMemo((): {
+    value: string;
+    caption?: string[];
+  } => {
+    switch (preset) {
+      case "text":
+        return { value: text };
+      case "url": {
+        const trimmed = url.trim();
+        return {
+          value:
+            !trimmed || /^[a-z][a-z\d+.-]*:/i.test(trimmed)
+              ? trimmed
+              : `https://${trimmed}`,
+        };
+      }
+      case "wifi":
+        return { value: wifi.ssid ? buildWifiPayload(wifi) : "" };
+      case "vcard":
+        return { value: contact.name.trim() ? buildVcardPayload(contact) : "" };
+      case "telegram":
+        return user
+          ? {
+              value: buildTelegramUserPayload(user),
+              caption: telegramUserCaption(user),
+            }
+          : { value: "" };
+    }
+  }, [preset, text, url, wifi, contact, user]);
+
+  const result = useMemo((): { code: QrCode } | { error: string } | null => {
+    if (!value) return null;
+    try {
+      return { code: encodeQr(value, { ecl }) };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [value, ecl]);
+
+  const code = result && "code" in result ? result.code : null;
+
+  // Draw in the current theme; the exported files use the same colors so they match the preview.
+  const colors = {
+    dark: tp.text_color ?? "#000000",
+    light: tp.bg_color ?? "#ffffff",
+  };
+
+  const svg = code ? renderSvg(code, { ...colors, caption }) : null;
+
+  const fileName = `qr-${preset}`;
+
+  const handleDownloadSvg = () => {
+    if (!svg) return;
+    download(new Blob([svg], { type: "image/svg+xml" }), `${fileName}.svg`);
+  };
+
+  const handleDownloadPng = async () => {
+    if (!code) return;
+    setActionError(null);
+    try {
+      download(await renderPng(code, { ...colors, caption }), `${fileName}.png`);
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleShare = async () => {
+    if (!code) return;
+    setActionError(null);
+    try {
+      const png = await renderPng(code, { ...colors, caption });
+      const file = new File([png], `${fileName}.png`, { type: "image/png" });
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file] });
+        return;
+      }
+      // Telegram's share sheet only takes links, so other payloads can only be downloaded.
+      if (/^(https?|tg):/i.test(value) && shareURL.isAvailable()) {
+        shareURL(value);
+        return;
+      }
+      setActionError(
+        "Sharing images is not supported here. Download the code instead.",
+      );
+    } catch (e) {
+      // The user closing the native share sheet is not an error.
+      if (e instanceof DOMException && e.name === "AbortError") return;
+      setActionError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <Page>
+      <List>
+        <Section header="Content">
+          <Select
+            header="Preset"
+            value={preset}
+            onChange={(e) => setPreset(e.target.value as Preset)}
+          >
+            {PRESETS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </Select>
+
+          {preset === "text" && (
+            <Textarea
+              header="Text"
+              placeholder="Anything you want to encode"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+          )}
+
+          {preset === "url" && (
+            <Input
+              header="URL"
+              placeholder="https://example.com"
+              inputMode="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          )}
+
+          {preset === "wifi" && (
+            <>
+              <Input
+                header="Network name (SSID)"
+                value={wifi.ssid}
+                onChange={(e) => setWifi({ ...wifi, ssid: e.target.value })}
+              />
+              <Select
+                header="Security"
+                value={wifi.security}
+                onChange={(e) =>
+                  setWifi({ ...wifi, security: e.target.value as WifiSecurity })
+                }
+              >
+                <option value="WPA">WPA/WPA2/WPA3</option>
+                <option value="WEP">WEP</option>
+                <option value="nopass">None</option>
+              </Select>
+              {wifi.security !== "nopass" && (
+                <Input
+                  header="Password"
+                  value={wifi.password}
+                  onChange={(e) =>
+                    setWifi({ ...wifi, password: e.target.value })
+                  }
+                />
+              )}
+              <Cell
+                Component="label"
+                after={
+                  <Switch
+                    checked={wifi.hidden}
+                    onChange={(e) =>
+                      setWifi({ ...wifi, hidden: e.target.checked })
+                    }
+                  />
+                }
+              >
+                Hidden network
+              </Cell>
+            </>
+          )}
+
+          {preset === "vcard" &&
+            (
+              [
+                ["name", "Name", "Jane Doe", "text"],
+                ["phone", "Phone", "+1 555 0100", "tel"],
+                ["email", "Email", "jane@example.com", "email"],
+                ["organization", "Organization", "", "text"],
+                ["title", "Job title", "", "text"],
+                ["url", "Website", "https://example.com", "url"],
+              ] as const
+            ).map(([field, header, placeholder, inputMode]) => (
+              <Input
+                key={field}
+                header={header}
+                placeholder={placeholder}
+                inputMode={inputMode}
+                value={contact[field]}
+                onChange={(e) =>
+                  setContact({ ...contact, [field]: e.target.value })
+                }
+              />
+            ))}
+
+          {preset === "telegram" && !user && (
+            <Cell multiline readOnly>
+              User data is not available in this launch.
+            </Cell>
+          )}
+
+          <Select
+            header="Error correction"
+            value={ecl}
+            onChange={(e) => setEcl(e.target.value as ErrorCorrectionLevel)}
+          >
+            {ERROR_CORRECTION_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                {ECL_LABELS[level]}
+              </option>
+            ))}
+          </Select>
+        </Section>
+
+        {result && "error" in result && (
+          <Section header="Error">
+            <Cell multiline readOnly>
+              {result.error}
+            </Cell>
+          </Section>
+        )}
+
+        {code && svg ? (
+          <Section
+            header="QR code"
+            footer={`Version ${code.version}, ${code.size}×${code.size} modules, ${code.mode} mode, mask ${code.mask}`}
+          >
+            <div style={{ padding: 16, display: "flex", justifyContent: "center" }}>
+              <img
+                src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+                alt={value}
+                style={{ width: "100%", maxWidth: 320 }}
+              />
+            </div>
+            <div style={{ display: "flex", gap: 8, padding: "0 16px 16px" }}>
+              <Button mode="bezeled" size="m" stretched onClick={() => void handleDownloadPng()}>
+                PNG
+              </Button>
+              <Button mode="bezeled" size="m" stretched onClick={handleDownloadSvg}>
+                SVG
+              </Button>
+              <Button size="m" stretched onClick={() => void handleShare()}>
+                Share
+              </Button>
+            </div>
+            {actionError && (
+              <Text
+                style={{
+                  display: "block",
+                  padding: "0 16px 16px",
+                  color: "var(--tg-theme-destructive-text-color)",
+                }}
+              >
+                {actionError}
+              </Text>
+            )}
+          </Section>
+        ) : (
+          !result && (
+            <Placeholder description="Fill in the fields above to generate a code." />
+          )
+        )}
+      </List>
+    </Page>
+  );
+};
@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useRef, useState, type FC } from "react";
+import {
+  Button,
+  Cell,
+  Input,
+  List,
+  Placeholder,
+  Section,
+  Select,
+  Spinner,
+} from "@telegram-apps/telegram-ui";
+
+import { useCan } from "@/auth/useCan";
+import { Page } from "@/components/Page.tsx";
+import { ScanExportSection } from "@/components/ScanExportSection";
+import {
+  deleteScan,
+  listScans,
+  type ScanRecord,
+} from "@/scan/history";
+import { QR_PAYLOAD_TYPES, type QrPayloadType } from "@/scan/payload";
+import { retryQueuedScans } from "@/scan/queue";
+import { useScanQueueCounts } from "@/scan/useScanQueue";
+
+export const HistoryPage: FC = () => {
+  const [scans, setScans] = useState<ScanRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [type, setType] = useState<QrPayloadType | "">("");
+  const [query, setQuery] = useState("");
+  const queueCounts = useScanQueueCounts();
+  const [retrying, setRetrying] = useState(false);
+  const canDelete = useCan("history.delete");
+  const canExport = useCan("history.export");
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      setScans(await listScans({ type: type || null, query }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setScans([]);
+    }
+  }, [type, query]);
+
+  useEffect(() => {
+    // Debounce typing in the search field.
+    const timeoutId = window.setTimeout(() => void load(), 300);
+    return () => window.clearTimeout(timeoutId);
+  }, [load]);
+
+  // Reload when the queue uploads scans, so they show up in the list.
+  const synced = queueCounts?.synced;
+  const syncedRef = useRef(synced);
+  useEffect(() => {
+    const previous = syncedRef.current;
+    syncedRef.current = synced;
+    if (previous !== undefined && synced !== undefined && synced > previous) {
+      void load();
+    }
+  }, [synced, load]);
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    try {
+      await retryQueuedScans();
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteScan(id);
+      setScans((prev) => prev?.filter((scan) => scan.id !== id) ?? null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <Page>
+      <List>
+        <Section header="Filter">
+          <Input
+            header="Search"
+            placeholder="Part of the payload"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <Select
+            header="Type"
+            value={type}
+            onChange={(e) => setType(e.target.value as QrPayloadType | "")}
+          >
+            <option value="">All types</option>
+            {QR_PAYLOAD_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </Select>
+        </Section>
+
+        {canExport && <ScanExportSection />}
+
+        {queueCounts && (
+          <Section
+            header="Offline queue"
+            footer="Scans are saved on this device first and uploaded when online."
+          >
+            <Cell readOnly after={String(queueCounts.pending)}>
+              Waiting for upload
+            </Cell>
+            <Cell readOnly after={String(queueCounts.synced)}>
+              Uploaded
+            </Cell>
+            <Cell
+              readOnly
+              after={
+                <span style={{ color: queueCounts.failed ? "crimson" : undefined }}>
+                  {queueCounts.failed}
+                </span>
+              }
+            >
+              Failed
+            </Cell>
+            {(queueCounts.pending > 0 || queueCounts.failed > 0) && (
+              <div style={{ padding: 12 }}>
+                <Button
+                  size="m"
+                  mode="bezeled"
+                  stretched
+                  loading={retrying}
+                  onClick={() => void handleRetry()}
+                >
+                  Retry now
+                </Button>
+              </div>
+            )}
+          </Section>
+        )}
+
+        {error && (
+          <Section footer={error}>
+            <Cell readOnly>Failed to load scan history</Cell>
+          </Section>
+        )}
+
+        {scans === null ? (
+          <Placeholder description="Loading scans...">
+            <Spinner size="l" />
+          </Placeholder>
+        ) : scans.length === 0 ? (
+          <Placeholder
+            header="No scans"
+            description="Scanned QR codes will appear here."
+          />
+        ) : (
+          <Section header={`Scans (${scans.length})`}>
+            {scans.map((scan) => (
+              <Cell
+                key={scan.id}
+                readOnly
+                multiline
+                subhead={scan.payload_type}
+                description={new Date(scan.scanned_at).toLocaleString()}
+                after={
+                  canDelete && (
+                    <Button
+                      mode="plain"
+                      size="s"
+                      onClick={() => void handleDelete(scan.id)}
+                    >
+                      Delete
+                    </Button>
+                  )
+                }
+              >
+                <span style={{ wordBreak: "break-word" }}>{scan.payload}</span>
+              </Cell>
+            ))}
+          </Section>
+        )}
+      </List>
+    </Page>
+  );
+};
@@ -1,12 +1,65 @@
 import type { FC } from "react";
+import { Cell, List, Section } from "@telegram-apps/telegram-ui";
 
+import { useCan } from "@/auth/useCan";
+import { Link } from "@/components/Link/Link.tsx";
 import { Page } from "@/components/Page.tsx";
 import { QrScanner } from "@/components/QrScanner";
 
 export const IndexPage: FC = () => {
+  const canCheckIn = useCan("checkin");
+  const canDiagnose = useCan("diagnostics");
+  const canManageProfiles = useCan("profiles.manage");
+
   return (
     <Page>
       <QrScanner />
+      <List>
+        <Section header="Scans">
+          <Link to="/history">
+            <Cell subtitle="Browse, filter and delete past scans">
+              Scan history
+            </Cell>
+          </Link>
+          <Link to="/generate">
+            <Cell subtitle="Create a QR code for text, links, Wi-Fi or contacts">
+              Generate QR code
+            </Cell>
+          </Link>
+          {canCheckIn && (
+            <Link to="/check-in">
+              <Cell subtitle="Verify signed event tickets, also offline">
+                Event check-in
+              </Cell>
+            </Link>
+          )}
+        </Section>
+        <Section header="Preferences">
+          <Link to="/settings">
+            <Cell subtitle="Scanner prompt, links, haptics and history retention">
+              Settings
+            </Cell>
+          </Link>
+        </Section>
+        {canManageProfiles && (
+          <Section header="Administration">
+            <Link to="/admin">
+              <Cell subtitle="Bound Telegram accounts, roles, invites and access">
+                Admin console
+              </Cell>
+            </Link>
+          </Section>
+        )}
+        {canDiagnose && (
+          <Section header="Troubleshooting">
+            <Link to="/diagnostics">
+              <Cell subtitle="Client version, supported features and a copyable report">
+                Diagnostics
+              </Cell>
+            </Link>
+          </Section>
+        )}
+      </List>
     </Page>
   );
 };
@@ -0,0 +1,301 @@
+import { useState, type FC, type ReactNode } from "react";
+import {
+  Button,
+  Cell,
+  Input,
+  List,
+  Section,
+  Select,
+  Switch,
+} from "@telegram-apps/telegram-ui";
+import { popup } from "@tma.js/sdk-react";
+
+import { signOut } from "@/auth/session";
+import { useCan } from "@/auth/useCan";
+import { Page } from "@/components/Page.tsx";
+import { logger } from "@/logging/logger";
+import { deleteScansBefore } from "@/scan/history";
+import { updateScannerPrefs, updateSettings } from "@/settings/store";
+import { useSettings } from "@/settings/useSettings";
+
+const log = logger("auth");
+const supabaseLog = logger("supabase");
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const DEDUPE_OPTIONS: { seconds: number; label: string }[] = [
+  { seconds: 0, label: "Off" },
+  { seconds: 30, label: "30 seconds" },
+  { seconds: 120, label: "2 minutes" },
+  { seconds: 300, label: "5 minutes" },
+  { seconds: 900, label: "15 minutes" },
+  { seconds: 3600, label: "1 hour" },
+  { seconds: 86400, label: "24 hours" },
+];
+
+const RETENTION_OPTIONS: { days: number; label: string }[] = [
+  { days: 0, label: "Forever" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+];
+
+function ToggleCell({
+  checked,
+  onChange,
+  description,
+  children,
+}: {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  description?: string;
+  children: ReactNode;
+}) {
+  return (
+    <Cell
+      Component="label"
+      multiline
+      description={description}
+      after={
+        <Switch
+          checked={checked}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+      }
+    >
+      {children}
+    </Cell>
+  );
+}
+
+/**
+ * Asks before an action that can't be undone, using the Telegram popup when available.
+ */
+async function confirmDestructive(
+  title: string,
+  confirmText: string,
+  message: string,
+) {
+  if (!popup.show.isAvailable()) return window.confirm(message);
+  const buttonId = await popup.show({
+    title,
+    message,
+    buttons: [
+      { id: "confirm", type: "destructive", text: confirmText },
+      { type: "cancel" },
+    ],
+  });
+  return buttonId === "confirm";
+}
+
+/**
+ * Edits the user's preferences. Changes apply right away and sync to the user's other Telegram
+ * clients.
+ */
+export const SettingsPage: FC = () => {
+  const { scanner, showDebugPanel, historyRetentionDays } = useSettings();
+  const dedupeOptions = DEDUPE_OPTIONS.some(
+    ({ seconds }) => seconds === scanner.dedupeWindowSeconds,
+  )
+    ? DEDUPE_OPTIONS
+    : [
+        ...DEDUPE_OPTIONS,
+        {
+          seconds: scanner.dedupeWindowSeconds,
+          label: `${scanner.dedupeWindowSeconds} seconds`,
+        },
+      ];
+
+  const canDeleteHistory = useCan("history.delete");
+  const [deletingOld, setDeletingOld] = useState(false);
+  const [retentionNotice, setRetentionNotice] = useState<string | null>(null);
+
+  // Deleting server history is irreversible, so the retention setting never does it on its
+  // own: the user confirms it here.
+  const handleDeleteOldScans = async () => {
+    const before = new Date(Date.now() - historyRetentionDays * DAY);
+    const confirmed = await confirmDestructive(
+      "Delete older scans?",
+      "Delete",
+      `Scans made before ${before.toLocaleDateString()} are deleted from your history on all devices. This can't be undone.`,
+    );
+    if (!confirmed) return;
+
+    setDeletingOld(true);
+    setRetentionNotice(null);
+    try {
+      const count = await deleteScansBefore(before);
+      supabaseLog.info("Scans past retention deleted", { count, before });
+      setRetentionNotice(`Deleted ${count} scan(s).`);
+    } catch (e) {
+      supabaseLog.error("Deleting scans past retention failed", { error: e });
+      setRetentionNotice(
+        `Delete failed: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    } finally {
+      setDeletingOld(false);
+    }
+  };
+
+  const [signingOut, setSigningOut] = useState(false);
+  const [signOutError, setSignOutError] = useState<string | null>(null);
+
+  const handleSignOut = async () => {
+    const confirmed = await confirmDestructive(
+      "Sign out?",
+      "Sign out",
+      "Scans and check-ins that can't be uploaded now are deleted from this device.",
+    );
+    if (!confirmed) return;
+    setSigningOut(true);
+    setSignOutError(null);
+    try {
+      // The app returns to the login screen on the SIGNED_OUT event.
+      await signOut();
+    } catch (e) {
+      log.error("Sign-out failed", { error: e });
+      setSignOutError(e instanceof Error ? e.message : String(e));
+      setSigningOut(false);
+    }
+  };
+
+  return (
+    <Page>
+      <List>
+        <Section
+          header="Scanner"
+          footer="Settings are saved to your Telegram account and apply on all your devices."
+        >
+          <Input
+            header="Scanner prompt"
+            placeholder="Telegram's default text"
+            value={scanner.prompt}
+            onChange={(e) => updateScannerPrefs({ prompt: e.target.value })}
+          />
+          <ToggleCell
+            checked={scanner.batchByDefault}
+            onChange={(batchByDefault) => updateScannerPrefs({ batchByDefault })}
+            description="Keep scanning until the scanner is closed"
+          >
+            Batch mode by default
+          </ToggleCell>
+          <ToggleCell
+            checked={scanner.autoOpenTrustedLinks}
+            onChange={(autoOpenTrustedLinks) =>
+              updateScannerPrefs({ autoOpenTrustedLinks })
+            }
+            description="Allowlisted domains open without asking. Other links always ask."
+          >
+            Auto-open trusted links
+          </ToggleCell>
+          <ToggleCell
+            checked={scanner.hapticsOnSuccess}
+            onChange={(hapticsOnSuccess) =>
+              updateScannerPrefs({ hapticsOnSuccess })
+            }
+          >
+            Vibrate on successful scan
+          </ToggleCell>
+        </Section>
+
+        <Section
+          header="Duplicates"
+          footer="Scanning the same code again within this time asks before recording it again."
+        >
+          <Select
+            header="Ask about repeats within"
+            value={String(scanner.dedupeWindowSeconds)}
+            onChange={(e) =>
+              updateScannerPrefs({
+                dedupeWindowSeconds: Number(e.target.value),
+              })
+            }
+          >
+            {dedupeOptions.map(({ seconds, label }) => (
+              <option key={seconds} value={seconds}>
+                {label}
+              </option>
+            ))}
+          </Select>
+          <ToggleCell
+            checked={scanner.dedupeServerCheck}
+            onChange={(dedupeServerCheck) =>
+              updateScannerPrefs({ dedupeServerCheck })
+            }
+            description="Also finds codes scanned on your other devices"
+          >
+            Check scan history
+          </ToggleCell>
+        </Section>
+
+        <Section
+          header="History"
+          footer={
+            retentionNotice ??
+            "Older recent scans are removed automatically. Your scan history is only deleted when you confirm it."
+          }
+        >
+          <Select
+            header="Keep scans for"
+            value={String(historyRetentionDays)}
+            onChange={(e) => {
+              setRetentionNotice(null);
+              updateSettings({ historyRetentionDays: Number(e.target.value) });
+            }}
+          >
+            {RETENTION_OPTIONS.map(({ days, label }) => (
+              <option key={days} value={days}>
+                {label}
+              </option>
+            ))}
+          </Select>
+          {canDeleteHistory && historyRetentionDays > 0 && (
+            <div style={{ padding: 12 }}>
+              <Button
+                mode="bezeled"
+                size="m"
+                stretched
+                loading={deletingOld}
+                onClick={() => void handleDeleteOldScans()}
+              >
+                Delete older scans from history
+              </Button>
+            </div>
+          )}
+        </Section>
+
+        <Section header="Developer">
+          <ToggleCell
+            checked={showDebugPanel}
+            onChange={(show) => updateSettings({ showDebugPanel: show })}
+            description="Log panel under the scanner"
+          >
+            Show debug panel
+          </ToggleCell>
+        </Section>
+
+        <Section
+          header="Account"
+          footer={
+            signOutError
+              ? `Sign-out failed: ${signOutError}`
+              : "Uploads what is still queued, then clears this device's data for your account."
+          }
+        >
+          <div style={{ padding: 12 }}>
+            <Button
+              mode="bezeled"
+              size="m"
+              stretched
+              loading={signingOut}
+              onClick={() => void handleSignOut()}
+            >
+              Sign out
+            </Button>
+          </div>
+        </Section>
+      </List>
+    </Page>
+  );
+};
@@ -0,0 +1,331 @@
+import { dataModuleOrder, functionModules } from "@/qr/encoder";
+import { correctErrors } from "@/qr/reedSolomon";
+import {
+  ALPHANUMERIC_CHARSET,
+  ERROR_CORRECTION_LEVELS,
+  MAX_VERSION,
+  MIN_VERSION,
+  charCountBits,
+  eccCodewordsPerBlock,
+  errorCorrectionBlocks,
+  formatInformation,
+  maskApplies,
+  totalCodewords,
+  versionInformation,
+  type ErrorCorrectionLevel,
+} from "@/qr/tables";
+
+export interface DecodedQr {
+  text: string;
+  version: number;
+  ecl: ErrorCorrectionLevel;
+  mask: number;
+  /** True if the symbol is flagged as GS1 data (FNC1 in first position). */
+  gs1: boolean;
+}
+
+/**
+ * ASCII group separator. Stands for FNC1 inside GS1 element strings.
+ */
+export const GROUP_SEPARATOR = "\u001d";
+
+function hammingDistance(a: number, b: number): number {
+  let x = a ^ b;
+  let count = 0;
+  while (x) {
+    count += x & 1;
+    x >>>= 1;
+  }
+  return count;
+}
+
+/**
+ * Reads the two format information copies and returns the closest valid format. Up to 3 bit
+ * errors can be corrected.
+ */
+function readFormat(
+  modules: boolean[][],
+): { ecl: ErrorCorrectionLevel; mask: number } {
+  const size = modules.length;
+  const bit = (x: number, y: number) => (modules[y][x] ? 1 : 0);
+
+  // Mirrors drawFormatBits() in the encoder.
+  let first = 0;
+  let second = 0;
+  for (let i = 14; i >= 0; i--) {
+    const [x1, y1] =
+      i <= 5 ? [8, i] : i === 6 ? [8, 7] : i === 7 ? [8, 8] : i === 8 ? [7, 8] : [14 - i, 8];
+    const [x2, y2] = i < 8 ? [size - 1 - i, 8] : [8, size - 15 + i];
+    first = (first << 1) | bit(x1, y1);
+    second = (second << 1) | bit(x2, y2);
+  }
+
+  let best: { ecl: ErrorCorrectionLevel; mask: number } | null = null;
+  let bestDistance = Infinity;
+  for (const ecl of ERROR_CORRECTION_LEVELS) {
+    for (let mask = 0; mask < 8; mask++) {
+      const expected = formatInformation(ecl, mask);
+      const distance = Math.min(
+        hammingDistance(first, expected),
+        hammingDistance(second, expected),
+      );
+      if (distance < bestDistance) {
+        best = { ecl, mask };
+        bestDistance = distance;
+      }
+    }
+  }
+  if (!best || bestDistance > 3) {
+    throw new Error("Unreadable format information.");
+  }
+  return best;
+}
+
+/**
+ * Cross-checks the symbol size against the version information blocks (versions 7 and up).
+ */
+function readVersion(modules: boolean[][]): number {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  if (!Number.isInteger(version) || version < MIN_VERSION || version > MAX_VERSION) {
+    throw new Error(`Invalid symbol size ${size}.`);
+  }
+  if (version < 7) return version;
+
+  let first = 0;
+  let second = 0;
+  for (let i = 17; i >= 0; i--) {
+    const a = size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    first = (first << 1) | (modules[b][a] ? 1 : 0);
+    second = (second << 1) | (modules[a][b] ? 1 : 0);
+  }
+
+  let best = version;
+  let bestDistance = Infinity;
+  for (let candidate = 7; candidate <= MAX_VERSION; candidate++) {
+    const expected = versionInformation(candidate);
+    const distance = Math.min(
+      hammingDistance(first, expected),
+      hammingDistance(second, expected),
+    );
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  // Trust the size when the version blocks are damaged beyond repair.
+  if (bestDistance <= 3 && best !== version) {
+    throw new Error(`Symbol size ${size} does not match version ${best}.`);
+  }
+  return version;
+}
+
+/**
+ * Undoes the block interleaving and corrects each block.
+ * @returns The data codewords.
+ */
+function deinterleave(
+  codewords: Uint8Array,
+  version: number,
+  ecl: ErrorCorrectionLevel,
+): Uint8Array {
+  const numBlocks = errorCorrectionBlocks(version, ecl);
+  const blockEccLen = eccCodewordsPerBlock(version, ecl);
+  const rawCodewords = totalCodewords(version);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortDataLen = Math.floor(rawCodewords / numBlocks) - blockEccLen;
+
+  const blocks = Array.from(
+    { length: numBlocks },
+    (_, i) =>
+      new Uint8Array(shortDataLen + (i < numShortBlocks ? 0 : 1) + blockEccLen),
+  );
+
+  let k = 0;
+  // Data codewords; short blocks have one fewer.
+  for (let i = 0; i <= shortDataLen; i++) {
+    blocks.forEach((block, j) => {
+      if (i < shortDataLen || j >= numShortBlocks) block[i] = codewords[k++];
+    });
+  }
+  for (let i = 0; i < blockEccLen; i++) {
+    blocks.forEach((block) => {
+      block[block.length - blockEccLen + i] = codewords[k++];
+    });
+  }
+
+  const data: number[] = [];
+  for (const block of blocks) {
+    correctErrors(block, blockEccLen);
+    data.push(...block.subarray(0, block.length - blockEccLen));
+  }
+  return Uint8Array.from(data);
+}
+
+class BitReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get available(): number {
+    return this.bytes.length * 8 - this.offset;
+  }
+
+  read(length: number): number {
+    if (length > this.available) throw new Error("Unexpected end of data.");
+    let result = 0;
+    for (let i = 0; i < length; i++, this.offset++) {
+      const bit = (this.bytes[this.offset >>> 3] >>> (7 - (this.offset & 7))) & 1;
+      result = (result << 1) | bit;
+    }
+    return result;
+  }
+}
+
+/**
+ * @returns The text decoding for an ECI assignment number, or null if unsupported.
+ */
+function eciEncoding(assignment: number): string | null {
+  switch (assignment) {
+    case 1:
+    case 3:
+      return "iso-8859-1";
+    case 4:
+      return "iso-8859-2";
+    case 20:
+      return "shift_jis";
+    case 22:
+      return "windows-1251";
+    case 26:
+      return "utf-8";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Byte mode without an ECI is nominally ISO-8859-1, but nearly every encoder writes UTF-8.
+ */
+function decodeBytes(bytes: number[], encoding: string | null): string {
+  const data = Uint8Array.from(bytes);
+  if (encoding) return new TextDecoder(encoding).decode(data);
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder("iso-8859-1").decode(data);
+  }
+}
+
+/**
+ * Parses the segments of the data bit stream (ISO/IEC 18004, section 7.4).
+ */
+function decodeSegments(
+  data: Uint8Array,
+  version: number,
+): { text: string; gs1: boolean } {
+  const reader = new BitReader(data);
+  let text = "";
+  let gs1 = false;
+  let encoding: string | null = null;
+
+  while (reader.available >= 4) {
+    const mode = reader.read(4);
+    switch (mode) {
+      case 0x0:
+        return { text, gs1 };
+      case 0x1: {
+        let count = reader.read(charCountBits(mode, version));
+        for (; count >= 3; count -= 3) {
+          text += reader.read(10).toString().padStart(3, "0");
+        }
+        if (count === 2) text += reader.read(7).toString().padStart(2, "0");
+        if (count === 1) text += reader.read(4).toString();
+        break;
+      }
+      case 0x2: {
+        let count = reader.read(charCountBits(mode, version));
+        let segment = "";
+        for (; count >= 2; count -= 2) {
+          const value = reader.read(11);
+          segment +=
+            ALPHANUMERIC_CHARSET[Math.floor(value / 45)] +
+            ALPHANUMERIC_CHARSET[value % 45];
+        }
+        if (count === 1) segment += ALPHANUMERIC_CHARSET[reader.read(6)];
+        // In GS1 mode "%" encodes FNC1 and "%%" a literal percent sign.
+        text += gs1
+          ? segment.replace(/%%|%/g, (m) => (m === "%" ? GROUP_SEPARATOR : "%"))
+          : segment;
+        break;
+      }
+      case 0x4: {
+        const count = reader.read(charCountBits(mode, version));
+        const bytes: number[] = [];
+        for (let i = 0; i < count; i++) bytes.push(reader.read(8));
+        text += decodeBytes(bytes, encoding);
+        break;
+      }
+      case 0x8: {
+        const count = reader.read(charCountBits(mode, version));
+        const bytes: number[] = [];
+        for (let i = 0; i < count; i++) {
+          const value = reader.read(13);
+          const word = Math.floor(value / 0xc0) * 0x100 + (value % 0xc0);
+          const sjis = word + (word < 0x1f00 ? 0x8140 : 0xc140);
+          bytes.push(sjis >>> 8, sjis & 0xff);
+        }
+        text += new TextDecoder("shift_jis").decode(Uint8Array.from(bytes));
+        break;
+      }
+      case 0x7: {
+        // ECI designator: 1, 2 or 3 bytes depending on the leading bits.
+        let assignment = reader.read(8);
+        if ((assignment & 0x80) === 0) {
+          // One byte.
+        } else if ((assignment & 0xc0) === 0x80) {
+          assignment = ((assignment & 0x3f) << 8) | reader.read(8);
+        } else {
+          assignment = ((assignment & 0x1f) << 16) | reader.read(16);
+        }
+        encoding = eciEncoding(assignment);
+        break;
+      }
+      case 0x5:
+        gs1 = true;
+        break;
+      case 0x9:
+        // FNC1 in second position: application indicator.
+        reader.read(8);
+        break;
+      case 0x3:
+        // Structured append header: symbol position, total and parity.
+        reader.read(16);
+        break;
+      default:
+        throw new Error(`Unsupported mode indicator ${mode}.`);
+    }
+  }
+  return { text, gs1 };
+}
+
+/**
+ * Decodes a sampled symbol.
+ * @param modules - `[y][x]` grid including only the symbol (no quiet zone), true is dark.
+ * @throws If the grid is not a readable QR code.
+ */
+export function decodeMatrix(modules: boolean[][]): DecodedQr {
+  const version = readVersion(modules);
+  const { ecl, mask } = readFormat(modules);
+
+  const order = dataModuleOrder(functionModules(version));
+  const codewords = new Uint8Array(totalCodewords(version));
+  for (let i = 0; i < codewords.length * 8; i++) {
+    const [x, y] = order[i];
+    const dark = modules[y][x] !== maskApplies(mask, x, y);
+    if (dark) codewords[i >>> 3] |= 0x80 >>> (i & 7);
+  }
+
+  const data = deinterleave(codewords, version, ecl);
+  return { ...decodeSegments(data, version), version, ecl, mask };
+}
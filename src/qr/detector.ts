@@ -0,0 +1,646 @@
+import { decodeMatrix, type DecodedQr } from "@/qr/decoder";
+
+/**
+ * Locates QR codes in raw RGBA pixels and samples them into module grids. The approach follows
+ * ZXing: local-threshold binarization, 1:1:3:1:1 finder pattern search, an alignment pattern
+ * search near the bottom right corner and a perspective transform between the two.
+ */
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface FinderPattern extends Point {
+  moduleSize: number;
+  count: number;
+}
+
+class BitMatrix {
+  readonly data: Uint8Array;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+  ) {
+    this.data = new Uint8Array(width * height);
+  }
+
+  get(x: number, y: number): boolean {
+    return this.data[y * this.width + x] === 1;
+  }
+
+  /** Out-of-range points are light, like the quiet zone. */
+  getClamped(x: number, y: number): boolean {
+    const ix = Math.floor(x);
+    const iy = Math.floor(y);
+    if (ix < 0 || iy < 0 || ix >= this.width || iy >= this.height) return false;
+    return this.get(ix, iy);
+  }
+
+  inverted(): BitMatrix {
+    const result = new BitMatrix(this.width, this.height);
+    this.data.forEach((value, i) => {
+      result.data[i] = value ^ 1;
+    });
+    return result;
+  }
+}
+
+const BLOCK_SIZE = 8;
+const MIN_DYNAMIC_RANGE = 24;
+
+/**
+ * Converts pixels to dark/light using thresholds averaged over 5x5 neighbourhoods of 8x8
+ * blocks, which copes with shadows and uneven lighting in photos.
+ */
+function binarize(rgba: Uint8ClampedArray, width: number, height: number): BitMatrix {
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] =
+      (rgba[i * 4] * 299 + rgba[i * 4 + 1] * 587 + rgba[i * 4 + 2] * 114) / 1000;
+  }
+
+  const blocksX = Math.ceil(width / BLOCK_SIZE);
+  const blocksY = Math.ceil(height / BLOCK_SIZE);
+  const blackPoints = new Float64Array(blocksX * blocksY);
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      let sum = 0;
+      let min = 255;
+      let max = 0;
+      let count = 0;
+      for (let y = by * BLOCK_SIZE; y < Math.min((by + 1) * BLOCK_SIZE, height); y++) {
+        for (let x = bx * BLOCK_SIZE; x < Math.min((bx + 1) * BLOCK_SIZE, width); x++) {
+          const value = gray[y * width + x];
+          sum += value;
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+          count++;
+        }
+      }
+
+      let average = sum / count;
+      if (max - min <= MIN_DYNAMIC_RANGE) {
+        // Flat block: assume it is light unless the neighbours say otherwise.
+        average = min / 2;
+        if (by > 0 && bx > 0) {
+          const neighbours =
+            (blackPoints[(by - 1) * blocksX + bx] +
+              2 * blackPoints[by * blocksX + bx - 1] +
+              blackPoints[(by - 1) * blocksX + bx - 1]) /
+            4;
+          if (min < neighbours) average = neighbours;
+        }
+      }
+      blackPoints[by * blocksX + bx] = average;
+    }
+  }
+
+  const result = new BitMatrix(width, height);
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      const cx = Math.min(Math.max(bx, 2), Math.max(blocksX - 3, 0));
+      const cy = Math.min(Math.max(by, 2), Math.max(blocksY - 3, 0));
+      let sum = 0;
+      let count = 0;
+      for (let y = cy - 2; y <= cy + 2; y++) {
+        for (let x = cx - 2; x <= cx + 2; x++) {
+          if (x < 0 || y < 0 || x >= blocksX || y >= blocksY) continue;
+          sum += blackPoints[y * blocksX + x];
+          count++;
+        }
+      }
+      const threshold = sum / count;
+
+      for (let y = by * BLOCK_SIZE; y < Math.min((by + 1) * BLOCK_SIZE, height); y++) {
+        for (let x = bx * BLOCK_SIZE; x < Math.min((bx + 1) * BLOCK_SIZE, width); x++) {
+          result.data[y * width + x] = gray[y * width + x] <= threshold ? 1 : 0;
+        }
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Checks run lengths of dark, light, dark, light, dark modules against the 1:1:3:1:1 ratio.
+ */
+function isFinderRatio(counts: number[]): boolean {
+  const total = counts.reduce((acc, count) => acc + count, 0);
+  if (total < 7) return false;
+  const moduleSize = total / 7;
+  const maxVariance = moduleSize / 2;
+  return (
+    Math.abs(moduleSize - counts[0]) < maxVariance &&
+    Math.abs(moduleSize - counts[1]) < maxVariance &&
+    Math.abs(3 * moduleSize - counts[2]) < 3 * maxVariance &&
+    Math.abs(moduleSize - counts[3]) < maxVariance &&
+    Math.abs(moduleSize - counts[4]) < maxVariance
+  );
+}
+
+/**
+ * Measures the finder pattern runs along a line through `center`.
+ * @returns The refined center on that line, or null if the runs do not form a finder pattern.
+ */
+function crossCheck(
+  isDark: (i: number) => boolean,
+  limit: number,
+  center: number,
+  expectedTotal: number,
+): number | null {
+  const maxCount = expectedTotal;
+  const counts = [0, 0, 0, 0, 0];
+
+  let i = center;
+  while (i >= 0 && isDark(i)) {
+    counts[2]++;
+    i--;
+  }
+  while (i >= 0 && !isDark(i) && counts[1] <= maxCount) {
+    counts[1]++;
+    i--;
+  }
+  while (i >= 0 && isDark(i) && counts[0] <= maxCount) {
+    counts[0]++;
+    i--;
+  }
+
+  i = center + 1;
+  while (i < limit && isDark(i)) {
+    counts[2]++;
+    i++;
+  }
+  while (i < limit && !isDark(i) && counts[3] <= maxCount) {
+    counts[3]++;
+    i++;
+  }
+  while (i < limit && isDark(i) && counts[4] <= maxCount) {
+    counts[4]++;
+    i++;
+  }
+
+  const total = counts.reduce((acc, count) => acc + count, 0);
+  if (5 * Math.abs(total - expectedTotal) >= 2 * expectedTotal) return null;
+  if (!isFinderRatio(counts)) return null;
+  return i - counts[4] - counts[3] - counts[2] / 2;
+}
+
+function findFinderPatterns(matrix: BitMatrix): FinderPattern[] {
+  const { width, height } = matrix;
+  const candidates: FinderPattern[] = [];
+
+  const addCandidate = (x: number, y: number, moduleSize: number) => {
+    const existing = candidates.find(
+      (c) =>
+        Math.abs(c.x - x) <= c.moduleSize &&
+        Math.abs(c.y - y) <= c.moduleSize &&
+        Math.abs(c.moduleSize - moduleSize) <= Math.max(1, c.moduleSize),
+    );
+    if (existing) {
+      const n = existing.count;
+      existing.x = (existing.x * n + x) / (n + 1);
+      existing.y = (existing.y * n + y) / (n + 1);
+      existing.moduleSize = (existing.moduleSize * n + moduleSize) / (n + 1);
+      existing.count++;
+    } else {
+      candidates.push({ x, y, moduleSize, count: 1 });
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    // Run lengths of the row, starting with a light run (possibly empty).
+    const runs: number[] = [];
+    let dark = false;
+    let run = 0;
+    for (let x = 0; x < width; x++) {
+      if (matrix.get(x, y) === dark) {
+        run++;
+      } else {
+        runs.push(run);
+        dark = !dark;
+        run = 1;
+      }
+    }
+    runs.push(run);
+
+    // Odd indices are dark runs.
+    let end = runs[0];
+    for (let i = 1; i + 4 < runs.length; i++) {
+      end += runs[i];
+      if (i % 2 === 0) continue;
+      const counts = runs.slice(i, i + 5);
+      if (!isFinderRatio(counts)) continue;
+
+      const total = counts.reduce((acc, count) => acc + count, 0);
+      const start = end - runs[i];
+      const centerX = Math.floor(start + counts[0] + counts[1] + counts[2] / 2);
+
+      const centerY = crossCheck(
+        (j) => matrix.get(centerX, j),
+        height,
+        y,
+        total,
+      );
+      if (centerY === null) continue;
+
+      const refinedX = crossCheck(
+        (j) => matrix.get(j, Math.floor(centerY)),
+        width,
+        centerX,
+        total,
+      );
+      if (refinedX === null) continue;
+
+      addCandidate(refinedX, centerY, total / 7);
+    }
+  }
+
+  // Patterns seen on a single row are usually noise.
+  return candidates
+    .filter((c) => c.count >= 2)
+    .sort((a, b) => b.count - a.count);
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Orders three finder patterns as top left, top right and bottom left.
+ */
+function orderFinderPatterns(
+  patterns: [FinderPattern, FinderPattern, FinderPattern],
+): [FinderPattern, FinderPattern, FinderPattern] {
+  const [a, b, c] = patterns;
+  const ab = distance(a, b);
+  const bc = distance(b, c);
+  const ac = distance(a, c);
+
+  // The top left pattern is opposite the longest side.
+  const [topLeft, p1, p2] =
+    bc >= ab && bc >= ac ? [a, b, c] : ac >= ab && ac >= bc ? [b, a, c] : [c, a, b];
+
+  // In image coordinates (y down) the top right pattern is clockwise from the bottom left one.
+  const cross =
+    (p1.x - topLeft.x) * (p2.y - topLeft.y) - (p1.y - topLeft.y) * (p2.x - topLeft.x);
+  return cross < 0 ? [topLeft, p2, p1] : [topLeft, p1, p2];
+}
+
+/**
+ * Projective mapping from a unit square to a quadrilateral and back (Heckbert, 1989).
+ */
+class PerspectiveTransform {
+  private constructor(private readonly m: number[]) {}
+
+  static squareToQuad(p: Point[]): PerspectiveTransform {
+    const [p0, p1, p2, p3] = p;
+    const dx3 = p0.x - p1.x + p2.x - p3.x;
+    const dy3 = p0.y - p1.y + p2.y - p3.y;
+    if (dx3 === 0 && dy3 === 0) {
+      return new PerspectiveTransform([
+        p1.x - p0.x, p2.x - p1.x, p0.x,
+        p1.y - p0.y, p2.y - p1.y, p0.y,
+        0, 0, 1,
+      ]);
+    }
+    const dx1 = p1.x - p2.x;
+    const dx2 = p3.x - p2.x;
+    const dy1 = p1.y - p2.y;
+    const dy2 = p3.y - p2.y;
+    const denominator = dx1 * dy2 - dx2 * dy1;
+    const a13 = (dx3 * dy2 - dx2 * dy3) / denominator;
+    const a23 = (dx1 * dy3 - dx3 * dy1) / denominator;
+    return new PerspectiveTransform([
+      p1.x - p0.x + a13 * p1.x, p3.x - p0.x + a23 * p3.x, p0.x,
+      p1.y - p0.y + a13 * p1.y, p3.y - p0.y + a23 * p3.y, p0.y,
+      a13, a23, 1,
+    ]);
+  }
+
+  static quadToQuad(from: Point[], to: Point[]): PerspectiveTransform {
+    return PerspectiveTransform.squareToQuad(to).times(
+      PerspectiveTransform.squareToQuad(from).adjoint(),
+    );
+  }
+
+  private adjoint(): PerspectiveTransform {
+    const [a11, a21, a31, a12, a22, a32, a13, a23, a33] = this.m;
+    return new PerspectiveTransform([
+      a22 * a33 - a23 * a32, a23 * a31 - a21 * a33, a21 * a32 - a22 * a31,
+      a13 * a32 - a12 * a33, a11 * a33 - a13 * a31, a12 * a31 - a11 * a32,
+      a12 * a23 - a13 * a22, a13 * a21 - a11 * a23, a11 * a22 - a12 * a21,
+    ]);
+  }
+
+  private times(other: PerspectiveTransform): PerspectiveTransform {
+    const a = this.m;
+    const b = other.m;
+    const result: number[] = [];
+    for (let row = 0; row < 3; row++) {
+      for (let col = 0; col < 3; col++) {
+        result.push(
+          a[row * 3] * b[col] + a[row * 3 + 1] * b[3 + col] + a[row * 3 + 2] * b[6 + col],
+        );
+      }
+    }
+    return new PerspectiveTransform(result);
+  }
+
+  transform({ x, y }: Point): Point {
+    const [a11, a21, a31, a12, a22, a32, a13, a23, a33] = this.m;
+    const w = a13 * x + a23 * y + a33;
+    return {
+      x: (a11 * x + a21 * y + a31) / w,
+      y: (a12 * x + a22 * y + a32) / w,
+    };
+  }
+}
+
+/** Relative module sizes the alignment pattern is checked at. */
+const ALIGNMENT_SCALES = [0.8, 0.9, 1, 1.1, 1.25];
+
+/**
+ * Measures the dark core and the light ring around it along a line through `center`.
+ * @returns The refined center and the three run lengths, or null if the line leaves the image
+ * or the light ring is not followed by the dark ring.
+ */
+function alignmentRuns(
+  isDark: (i: number) => boolean,
+  limit: number,
+  center: number,
+  maxCount: number,
+): { center: number; counts: [number, number, number] } | null {
+  let core = 0;
+  let i = center;
+  while (i >= 0 && isDark(i) && core <= maxCount) {
+    core++;
+    i--;
+  }
+  let before = 0;
+  while (i >= 0 && !isDark(i) && before <= maxCount) {
+    before++;
+    i--;
+  }
+  if (i < 0 || before > maxCount) return null;
+
+  i = center + 1;
+  while (i < limit && isDark(i) && core <= maxCount) {
+    core++;
+    i++;
+  }
+  let after = 0;
+  while (i < limit && !isDark(i) && after <= maxCount) {
+    after++;
+    i++;
+  }
+  if (i >= limit || after > maxCount) return null;
+
+  return { center: i - after - core / 2, counts: [before, core, after] };
+}
+
+/**
+ * Searches around the estimated position for the bottom right alignment pattern: a dark module
+ * inside a light ring inside a dark ring. Perspective can shift it by a few modules and change
+ * its apparent size, so candidates are found by 1:1:1 runs and then checked against the
+ * complete 5x5 pattern, sampled along the symbol axes at a few scales.
+ * @param axisX - one module along the top edge of the symbol, in pixels.
+ * @param axisY - one module along the left edge of the symbol, in pixels.
+ */
+function findAlignmentPattern(
+  matrix: BitMatrix,
+  estimate: Point,
+  moduleSize: number,
+  axisX: Point,
+  axisY: Point,
+): Point | null {
+  const radius = Math.ceil(moduleSize * 5);
+  const maxCount = moduleSize * 2;
+  const fits = (count: number) => Math.abs(count - moduleSize) < moduleSize * 0.7;
+
+  const offsets: [number, number, boolean][] = [];
+  for (let dy = -2; dy <= 2; dy++) {
+    for (let dx = -2; dx <= 2; dx++) {
+      offsets.push([dx, dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1]);
+    }
+  }
+
+  let best: Point | null = null;
+  let bestScore = 0;
+  const top = Math.max(0, Math.floor(estimate.y - radius));
+  const bottom = Math.min(matrix.height - 1, Math.ceil(estimate.y + radius));
+  const left = Math.max(0, Math.floor(estimate.x - radius));
+  const right = Math.min(matrix.width - 1, Math.ceil(estimate.x + radius));
+
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      // Only look at the first pixel of each dark run.
+      if (!matrix.get(x, y) || (x > 0 && matrix.get(x - 1, y))) continue;
+
+      const horizontal = alignmentRuns((i) => matrix.get(i, y), matrix.width, x, maxCount);
+      if (!horizontal || !horizontal.counts.every(fits)) continue;
+
+      const cx = Math.floor(horizontal.center);
+      const vertical = alignmentRuns((i) => matrix.get(cx, i), matrix.height, y, maxCount);
+      if (!vertical || !vertical.counts.every(fits)) continue;
+
+      const candidate = { x: horizontal.center, y: vertical.center };
+      let score = 0;
+      for (const scale of ALIGNMENT_SCALES) {
+        let matches = 0;
+        for (const [dx, dy, dark] of offsets) {
+          const px = candidate.x + (dx * axisX.x + dy * axisY.x) * scale;
+          const py = candidate.y + (dx * axisX.y + dy * axisY.y) * scale;
+          if (matrix.getClamped(px, py) === dark) matches++;
+        }
+        score = Math.max(score, matches);
+      }
+
+      if (
+        score > bestScore ||
+        (score === bestScore &&
+          best &&
+          distance(candidate, estimate) < distance(best, estimate))
+      ) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+  }
+
+  // Require nearly all 25 modules to match.
+  return bestScore >= 22 ? best : null;
+}
+
+function sampleGrid(
+  matrix: BitMatrix,
+  transform: PerspectiveTransform,
+  dimension: number,
+): boolean[][] {
+  return Array.from({ length: dimension }, (_, y) =>
+    Array.from({ length: dimension }, (_, x) => {
+      const p = transform.transform({ x: x + 0.5, y: y + 0.5 });
+      return matrix.getClamped(p.x, p.y);
+    }),
+  );
+}
+
+/**
+ * Samples the grids that three finder patterns may belong to: with the alignment pattern, if
+ * one is found, and with the parallelogram estimate of the fourth corner.
+ */
+/**
+ * Walks from a finder pattern center across its dark core, light ring and dark ring.
+ * @returns The distance walked, which is 3.5 modules, or NaN if the rings were not found.
+ */
+function ringRadius(matrix: BitMatrix, from: Point, dirX: number, dirY: number): number {
+  const maxDistance = Math.max(matrix.width, matrix.height);
+  let state = 0;
+  for (let d = 0; d < maxDistance; d++) {
+    const dark = matrix.getClamped(from.x + dirX * d, from.y + dirY * d);
+    // Expect dark, then light, then dark, then the light quiet zone or data.
+    if ((state === 1) === dark && ++state === 3) return d;
+  }
+  return NaN;
+}
+
+/**
+ * Module size measured along the line between two finder patterns, in both directions from
+ * `from`. Unlike the row scan estimate, it is not inflated by rotation.
+ */
+function moduleSizeAlong(matrix: BitMatrix, from: Point, to: Point): number {
+  const length = distance(from, to);
+  const dirX = (to.x - from.x) / length;
+  const dirY = (to.y - from.y) / length;
+  // The center pixel is walked in both directions.
+  return (
+    (ringRadius(matrix, from, dirX, dirY) + ringRadius(matrix, from, -dirX, -dirY) - 1) / 7
+  );
+}
+
+function* extractGrids(
+  matrix: BitMatrix,
+  patterns: [FinderPattern, FinderPattern, FinderPattern],
+): Generator<boolean[][]> {
+  const [topLeft, topRight, bottomLeft] = orderFinderPatterns(patterns);
+  const measured = [
+    moduleSizeAlong(matrix, topLeft, topRight),
+    moduleSizeAlong(matrix, topRight, topLeft),
+    moduleSizeAlong(matrix, topLeft, bottomLeft),
+    moduleSizeAlong(matrix, bottomLeft, topLeft),
+  ].filter((size) => !Number.isNaN(size));
+  const moduleSize = measured.length
+    ? measured.reduce((acc, size) => acc + size, 0) / measured.length
+    : (topLeft.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+
+  const raw =
+    (distance(topLeft, topRight) + distance(topLeft, bottomLeft)) / 2 / moduleSize + 7;
+  const estimated = Math.round((raw - 17) / 4) * 4 + 17;
+
+  const bottomRight = {
+    x: topRight.x - topLeft.x + bottomLeft.x,
+    y: topRight.y - topLeft.y + bottomLeft.y,
+  };
+
+  // Module size measurements are a few percent off on large symbols, which is enough to miss
+  // the symbol size by one version, so the neighbouring sizes are tried as well.
+  for (const dimension of [estimated, estimated - 4, estimated + 4]) {
+    if (dimension < 21 || dimension > 177) continue;
+
+    const source = [
+      { x: 3.5, y: 3.5 },
+      { x: dimension - 3.5, y: 3.5 },
+      { x: dimension - 3.5, y: dimension - 3.5 },
+      { x: 3.5, y: dimension - 3.5 },
+    ];
+
+    if (dimension > 21) {
+      // The alignment pattern center is 3 modules in from the bottom right corner.
+      const correction = 1 - 3 / (dimension - 7);
+      const estimate = {
+        x: topLeft.x + correction * (bottomRight.x - topLeft.x),
+        y: topLeft.y + correction * (bottomRight.y - topLeft.y),
+      };
+      // Finder centers are dimension - 7 modules apart.
+      const axisX = {
+        x: (topRight.x - topLeft.x) / (dimension - 7),
+        y: (topRight.y - topLeft.y) / (dimension - 7),
+      };
+      const axisY = {
+        x: (bottomLeft.x - topLeft.x) / (dimension - 7),
+        y: (bottomLeft.y - topLeft.y) / (dimension - 7),
+      };
+      const alignment = findAlignmentPattern(matrix, estimate, moduleSize, axisX, axisY);
+      if (alignment) {
+        yield sampleGrid(
+          matrix,
+          PerspectiveTransform.quadToQuad(
+            [source[0], source[1], { x: dimension - 6.5, y: dimension - 6.5 }, source[3]],
+            [topLeft, topRight, alignment, bottomLeft],
+          ),
+          dimension,
+        );
+      }
+    }
+
+    yield sampleGrid(
+      matrix,
+      PerspectiveTransform.quadToQuad(source, [topLeft, topRight, bottomRight, bottomLeft]),
+      dimension,
+    );
+  }
+}
+
+function transpose(grid: boolean[][]): boolean[][] {
+  return grid.map((row, y) => row.map((_, x) => grid[x][y]));
+}
+
+/**
+ * Tries combinations of the most prominent finder patterns until one decodes.
+ */
+function decodeBitMatrix(matrix: BitMatrix): DecodedQr | null {
+  const patterns = findFinderPatterns(matrix).slice(0, 6);
+  for (let i = 0; i < patterns.length; i++) {
+    for (let j = i + 1; j < patterns.length; j++) {
+      for (let k = j + 1; k < patterns.length; k++) {
+        const triple: [FinderPattern, FinderPattern, FinderPattern] = [
+          patterns[i],
+          patterns[j],
+          patterns[k],
+        ];
+        // Finder patterns of one symbol have about the same module size.
+        const sizes = triple.map((p) => p.moduleSize);
+        if (Math.max(...sizes) > Math.min(...sizes) * 1.5) continue;
+
+        for (const grid of extractGrids(matrix, triple)) {
+          // Mirrored images (e.g. selfie cameras) read as the transposed grid.
+          for (const candidate of [grid, transpose(grid)]) {
+            try {
+              return decodeMatrix(candidate);
+            } catch {
+              // Try the next candidate.
+            }
+          }
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds and decodes a QR code in an image.
+ * @param rgba - pixels as returned by `CanvasRenderingContext2D.getImageData()`.
+ * @returns The decoded symbol, or null if none was found.
+ */
+export function scanImageData(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+): DecodedQr | null {
+  const matrix = binarize(rgba, width, height);
+  // Light-on-dark codes (e.g. screenshots in dark themes) only decode inverted.
+  return decodeBitMatrix(matrix) ?? decodeBitMatrix(matrix.inverted());
+}
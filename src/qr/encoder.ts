@@ -0,0 +1,442 @@
+import { computeEcc, generatorPolynomial } from "@/qr/reedSolomon";
+import {
+  ALPHANUMERIC_CHARSET,
+  MAX_VERSION,
+  MIN_VERSION,
+  alignmentPatternPositions,
+  charCountBits,
+  dataCodewords,
+  eccCodewordsPerBlock,
+  errorCorrectionBlocks,
+  formatInformation,
+  maskApplies,
+  symbolSize,
+  totalCodewords,
+  versionInformation,
+  type ErrorCorrectionLevel,
+} from "@/qr/tables";
+
+export type EncodingMode = "numeric" | "alphanumeric" | "byte";
+
+export interface QrEncodeOptions {
+  /** @default "M" */
+  ecl?: ErrorCorrectionLevel;
+  /** Forces a mode; by default the most compact mode able to hold the text is used. */
+  mode?: EncodingMode;
+  /** @default 1 */
+  minVersion?: number;
+  /** @default 40 */
+  maxVersion?: number;
+  /** Forces a mask pattern (0-7); by default the one with the lowest penalty is chosen. */
+  mask?: number;
+}
+
+export interface QrCode {
+  version: number;
+  size: number;
+  ecl: ErrorCorrectionLevel;
+  mode: EncodingMode;
+  mask: number;
+  /** `[y][x]` grid, true is a dark module. */
+  modules: boolean[][];
+}
+
+const MODE_INDICATOR: Record<EncodingMode, number> = {
+  numeric: 0x1,
+  alphanumeric: 0x2,
+  byte: 0x4,
+};
+
+class BitBuffer {
+  readonly bits: number[] = [];
+
+  append(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.bits.push((value >>> i) & 1);
+    }
+  }
+}
+
+export function detectMode(text: string): EncodingMode {
+  if (/^\d*$/.test(text)) return "numeric";
+  if ([...text].every((char) => ALPHANUMERIC_CHARSET.includes(char))) {
+    return "alphanumeric";
+  }
+  return "byte";
+}
+
+/**
+ * Appends the segment payload (without mode indicator and character count).
+ * @returns The character count to be written in the header.
+ */
+function encodeSegmentData(
+  text: string,
+  mode: EncodingMode,
+  out: BitBuffer,
+): number {
+  switch (mode) {
+    case "numeric": {
+      if (!/^\d*$/.test(text)) {
+        throw new Error("Numeric mode only supports digits.");
+      }
+      for (let i = 0; i < text.length; i += 3) {
+        const group = text.slice(i, i + 3);
+        out.append(Number(group), group.length * 3 + 1);
+      }
+      return text.length;
+    }
+    case "alphanumeric": {
+      const values = [...text].map((char) => {
+        const value = ALPHANUMERIC_CHARSET.indexOf(char);
+        if (value === -1) {
+          throw new Error(`Character ${JSON.stringify(char)} is not alphanumeric.`);
+        }
+        return value;
+      });
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        out.append(values[i] * 45 + values[i + 1], 11);
+      }
+      if (values.length % 2) out.append(values[values.length - 1], 6);
+      return values.length;
+    }
+    case "byte": {
+      const bytes = new TextEncoder().encode(text);
+      bytes.forEach((byte) => out.append(byte, 8));
+      return bytes.length;
+    }
+  }
+}
+
+/**
+ * Builds the complete data codeword sequence (header, payload, terminator and padding) for
+ * the smallest version in range able to hold it.
+ */
+function encodeData(
+  text: string,
+  mode: EncodingMode,
+  ecl: ErrorCorrectionLevel,
+  minVersion: number,
+  maxVersion: number,
+): { version: number; codewords: number[] } {
+  const payload = new BitBuffer();
+  const count = encodeSegmentData(text, mode, payload);
+
+  for (let version = minVersion; version <= maxVersion; version++) {
+    const countBits = charCountBits(MODE_INDICATOR[mode], version);
+    const capacityBits = dataCodewords(version, ecl) * 8;
+    const usedBits = 4 + countBits + payload.bits.length;
+    if (count >= 1 << countBits || usedBits > capacityBits) continue;
+
+    const bb = new BitBuffer();
+    bb.append(MODE_INDICATOR[mode], 4);
+    bb.append(count, countBits);
+    bb.bits.push(...payload.bits);
+
+    // Terminator, then pad to a byte boundary.
+    bb.append(0, Math.min(4, capacityBits - bb.bits.length));
+    bb.append(0, (8 - (bb.bits.length % 8)) % 8);
+    // Alternating pad bytes.
+    for (let pad = 0xec; bb.bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+      bb.append(pad, 8);
+    }
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bb.bits.length; i += 8) {
+      codewords.push(
+        bb.bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0),
+      );
+    }
+    return { version, codewords };
+  }
+
+  throw new Error(
+    `Data too long: ${count} characters do not fit a version ${maxVersion} QR code at level ${ecl}.`,
+  );
+}
+
+/**
+ * Splits data into blocks, appends error correction to each and interleaves the result.
+ */
+function addEccAndInterleave(
+  data: number[],
+  version: number,
+  ecl: ErrorCorrectionLevel,
+): number[] {
+  const numBlocks = errorCorrectionBlocks(version, ecl);
+  const blockEccLen = eccCodewordsPerBlock(version, ecl);
+  const rawCodewords = totalCodewords(version);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const generator = generatorPolynomial(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(
+      k,
+      k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1),
+    );
+    k += dat.length;
+    const ecc = computeEcc(dat, generator);
+    // Short blocks get a placeholder so all blocks have the same length.
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push([...dat, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+class Matrix {
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly size: number) {
+    this.modules = Array.from({ length: size }, () =>
+      new Array<boolean>(size).fill(false),
+    );
+    this.isFunction = Array.from({ length: size }, () =>
+      new Array<boolean>(size).fill(false),
+    );
+  }
+
+  setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+}
+
+function drawFinder(m: Matrix, cx: number, cy: number): void {
+  for (let dy = -4; dy <= 4; dy++) {
+    for (let dx = -4; dx <= 4; dx++) {
+      const x = cx + dx;
+      const y = cy + dy;
+      if (x < 0 || x >= m.size || y < 0 || y >= m.size) continue;
+      const dist = Math.max(Math.abs(dx), Math.abs(dy));
+      m.setFunction(x, y, dist !== 2 && dist !== 4);
+    }
+  }
+}
+
+function drawAlignment(m: Matrix, cx: number, cy: number): void {
+  for (let dy = -2; dy <= 2; dy++) {
+    for (let dx = -2; dx <= 2; dx++) {
+      m.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }
+}
+
+function drawFormatBits(m: Matrix, ecl: ErrorCorrectionLevel, mask: number): void {
+  const bits = formatInformation(ecl, mask);
+  const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+  const { size } = m;
+
+  // Copy around the top-left finder.
+  for (let i = 0; i <= 5; i++) m.setFunction(8, i, bit(i));
+  m.setFunction(8, 7, bit(6));
+  m.setFunction(8, 8, bit(7));
+  m.setFunction(7, 8, bit(8));
+  for (let i = 9; i < 15; i++) m.setFunction(14 - i, 8, bit(i));
+
+  // Copy split between the other two finders.
+  for (let i = 0; i < 8; i++) m.setFunction(size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) m.setFunction(8, size - 15 + i, bit(i));
+  m.setFunction(8, size - 8, true);
+}
+
+function drawVersion(m: Matrix, version: number): void {
+  if (version < 7) return;
+  const bits = versionInformation(version);
+  for (let i = 0; i < 18; i++) {
+    const dark = ((bits >>> i) & 1) !== 0;
+    const a = m.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    m.setFunction(a, b, dark);
+    m.setFunction(b, a, dark);
+  }
+}
+
+function drawFunctionPatterns(m: Matrix, version: number, ecl: ErrorCorrectionLevel): void {
+  for (let i = 0; i < m.size; i++) {
+    m.setFunction(6, i, i % 2 === 0);
+    m.setFunction(i, 6, i % 2 === 0);
+  }
+
+  drawFinder(m, 3, 3);
+  drawFinder(m, m.size - 4, 3);
+  drawFinder(m, 3, m.size - 4);
+
+  const positions = alignmentPatternPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cy, i) => {
+    positions.forEach((cx, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      drawAlignment(m, cx, cy);
+    });
+  });
+
+  // Reserve the format area; the real bits are drawn once the mask is chosen.
+  drawFormatBits(m, ecl, 0);
+  drawVersion(m, version);
+}
+
+/**
+ * @returns `[y][x]` grid marking function patterns and format/version information areas.
+ */
+export function functionModules(version: number): boolean[][] {
+  const m = new Matrix(symbolSize(version));
+  drawFunctionPatterns(m, version, "L");
+  return m.isFunction;
+}
+
+/**
+ * @returns `[x, y]` of every data module in placement order: the two-column zigzag starting at
+ * the bottom right corner.
+ */
+export function dataModuleOrder(isFunction: boolean[][]): [number, number][] {
+  const size = isFunction.length;
+  const result: [number, number][] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    // Skip the vertical timing pattern.
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = upward ? size - 1 - vert : vert;
+        if (!isFunction[y][x]) result.push([x, y]);
+      }
+    }
+  }
+  return result;
+}
+
+function drawCodewords(m: Matrix, codewords: number[]): void {
+  // Remainder bits past the last codeword stay light.
+  dataModuleOrder(m.isFunction).forEach(([x, y], i) => {
+    if (i < codewords.length * 8) {
+      m.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+    }
+  });
+}
+
+function applyMask(m: Matrix, mask: number): void {
+  for (let y = 0; y < m.size; y++) {
+    for (let x = 0; x < m.size; x++) {
+      if (!m.isFunction[y][x] && maskApplies(mask, x, y)) {
+        m.modules[y][x] = !m.modules[y][x];
+      }
+    }
+  }
+}
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+/**
+ * Penalty score from the four mask evaluation rules of ISO/IEC 18004, section 7.8.3.
+ */
+function penaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map((row) => row[x])),
+  ];
+
+  for (const line of lines) {
+    // Rule 1: runs of five or more same-colored modules.
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) penalty += run - 2;
+        run = 1;
+      }
+    }
+
+    // Rule 3: finder-like 1:1:3:1:1 patterns with four light modules on either side.
+    for (let i = 0; i + 11 <= size; i++) {
+      for (const pattern of FINDER_LIKE) {
+        if (pattern.every((dark, k) => line[i + k] === dark)) penalty += 40;
+      }
+    }
+  }
+
+  // Rule 2: 2x2 blocks of the same color.
+  for (let y = 0; y + 1 < size; y++) {
+    for (let x = 0; x + 1 < size; x++) {
+      const c = modules[y][x];
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) {
+        penalty += 3;
+      }
+    }
+  }
+
+  // Rule 4: deviation of the dark module ratio from 50%.
+  const dark = modules.reduce((acc, row) => acc + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+  return penalty;
+}
+
+/**
+ * Encodes text as a QR code symbol.
+ * @throws If the text does not fit or does not match a forced mode.
+ */
+export function encodeQr(text: string, options: QrEncodeOptions = {}): QrCode {
+  const {
+    ecl = "M",
+    mode = detectMode(text),
+    minVersion = MIN_VERSION,
+    maxVersion = MAX_VERSION,
+    mask: forcedMask,
+  } = options;
+
+  if (minVersion < MIN_VERSION || maxVersion > MAX_VERSION || minVersion > maxVersion) {
+    throw new Error(`Invalid version range ${minVersion}-${maxVersion}.`);
+  }
+  if (forcedMask !== undefined && (forcedMask < 0 || forcedMask > 7)) {
+    throw new Error(`Invalid mask pattern ${forcedMask}.`);
+  }
+
+  const { version, codewords } = encodeData(text, mode, ecl, minVersion, maxVersion);
+
+  const m = new Matrix(symbolSize(version));
+  drawFunctionPatterns(m, version, ecl);
+  drawCodewords(m, addEccAndInterleave(codewords, version, ecl));
+
+  let mask = forcedMask ?? 0;
+  if (forcedMask === undefined) {
+    let minPenalty = Infinity;
+    for (let candidate = 0; candidate < 8; candidate++) {
+      applyMask(m, candidate);
+      drawFormatBits(m, ecl, candidate);
+      const penalty = penaltyScore(m.modules);
+      if (penalty < minPenalty) {
+        mask = candidate;
+        minPenalty = penalty;
+      }
+      // XOR is its own inverse.
+      applyMask(m, candidate);
+    }
+  }
+
+  applyMask(m, mask);
+  drawFormatBits(m, ecl, mask);
+
+  return { version, size: m.size, ecl, mode, mask, modules: m.modules };
+}
@@ -0,0 +1,78 @@
+import type { DecodedQr } from "@/qr/decoder";
+import { scanImageData } from "@/qr/detector";
+
+/**
+ * Longest image sides tried, in order. Downscaling makes photos faster to scan and smooths out
+ * sensor noise; the larger size helps with dense codes in high resolution screenshots.
+ */
+const MAX_SIDES = [1024, 2048, 512];
+
+interface LoadedImage {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  /** Releases the decoded pixels. */
+  close(): void;
+}
+
+async function loadImage(file: Blob): Promise<LoadedImage> {
+  if (typeof createImageBitmap === "function") {
+    const bitmap = await createImageBitmap(file);
+    return {
+      source: bitmap,
+      width: bitmap.width,
+      height: bitmap.height,
+      close: () => bitmap.close(),
+    };
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return {
+      source: image,
+      width: image.naturalWidth,
+      height: image.naturalHeight,
+      // The image is released with its last reference.
+      close: () => {},
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Finds and decodes a QR code in an image file, entirely on the device.
+ * @returns The decoded symbol, or null if no readable QR code was found.
+ * @throws If the file is not an image the browser can decode.
+ */
+export async function decodeQrImage(file: Blob): Promise<DecodedQr | null> {
+  const image = await loadImage(file);
+  try {
+    const canvas = document.createElement("canvas");
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas 2D context is not available.");
+
+    const tried = new Set<number>();
+    for (const maxSide of MAX_SIDES) {
+      const scale = Math.min(1, maxSide / Math.max(image.width, image.height));
+      const width = Math.max(1, Math.round(image.width * scale));
+      const height = Math.max(1, Math.round(image.height * scale));
+      if (tried.has(width)) continue;
+      tried.add(width);
+
+      canvas.width = width;
+      canvas.height = height;
+      ctx.drawImage(image.source, 0, 0, width, height);
+      const { data } = ctx.getImageData(0, 0, width, height);
+
+      const result = scanImageData(data, width, height);
+      if (result) return result;
+    }
+    return null;
+  } finally {
+    image.close();
+  }
+}
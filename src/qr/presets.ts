@@ -0,0 +1,88 @@
+import type { User } from "@tma.js/sdk-react";
+
+/**
+ * Builders for the standard payload formats understood by scanners. They are the inverse of
+ * `classifyPayload` in `@/scan/payload`.
+ */
+
+export type WifiSecurity = "WPA" | "WEP" | "nopass";
+
+export interface WifiPreset {
+  ssid: string;
+  security: WifiSecurity;
+  password: string;
+  hidden: boolean;
+}
+
+export interface ContactPreset {
+  name: string;
+  phone: string;
+  email: string;
+  organization: string;
+  title: string;
+  url: string;
+}
+
+/**
+ * Escapes `\`, `;`, `,`, `:` and `"` as required by the `WIFI:` and `MECARD:` formats.
+ */
+function escapeWifi(value: string): string {
+  return value.replace(/([\\;,:"])/g, "\\$1");
+}
+
+function escapeVcard(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/([;,])/g, "\\$1");
+}
+
+export function buildWifiPayload({
+  ssid,
+  security,
+  password,
+  hidden,
+}: WifiPreset): string {
+  let result = `WIFI:T:${security};S:${escapeWifi(ssid)};`;
+  if (security !== "nopass") result += `P:${escapeWifi(password)};`;
+  if (hidden) result += "H:true;";
+  return `${result};`;
+}
+
+export function buildVcardPayload(contact: ContactPreset): string {
+  const [first, ...rest] = contact.name.trim().split(/\s+/);
+  const last = rest.join(" ");
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:3.0",
+    `N:${escapeVcard(last)};${escapeVcard(first ?? "")};;;`,
+    `FN:${escapeVcard(contact.name.trim())}`,
+    contact.organization && `ORG:${escapeVcard(contact.organization)}`,
+    contact.title && `TITLE:${escapeVcard(contact.title)}`,
+    contact.phone && `TEL:${escapeVcard(contact.phone)}`,
+    contact.email && `EMAIL:${escapeVcard(contact.email)}`,
+    contact.url && `URL:${escapeVcard(contact.url)}`,
+    "END:VCARD",
+  ];
+  return lines.filter(Boolean).join("\r\n");
+}
+
+/**
+ * @returns A link to the user's profile: the public `t.me` link when they have a username,
+ * otherwise a `tg://user` link that only works inside Telegram.
+ */
+export function buildTelegramUserPayload(user: User): string {
+  return user.username
+    ? `https://t.me/${user.username}`
+    : `tg://user?id=${user.id}`;
+}
+
+/**
+ * @returns Caption lines for the "my Telegram ID" badge.
+ */
+export function telegramUserCaption(user: User): string[] {
+  const name = [user.first_name, user.last_name].filter(Boolean).join(" ");
+  return [name, user.username ? `@${user.username}` : "", `ID ${user.id}`].filter(
+    Boolean,
+  );
+}
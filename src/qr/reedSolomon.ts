@@ -0,0 +1,166 @@
+/**
+ * Reed-Solomon arithmetic over GF(256) with the QR code primitive polynomial
+ * x^8 + x^4 + x^3 + x^2 + 1 (0x11d) and generator element 2.
+ */
+
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= 0x11d;
+  }
+  // Duplicate the table so products of logs never need a modulo.
+  for (let i = 255; i < 512; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+export function gfMul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+export function gfDiv(a: number, b: number): number {
+  if (b === 0) throw new Error("Division by zero in GF(256).");
+  return a === 0 ? 0 : EXP[(LOG[a] + 255 - LOG[b]) % 255];
+}
+
+/**
+ * @returns 2^power in GF(256).
+ */
+export function gfPow2(power: number): number {
+  return EXP[((power % 255) + 255) % 255];
+}
+
+/**
+ * @returns Coefficients of the generator polynomial of the given degree, highest power first,
+ * without the leading 1.
+ */
+export function generatorPolynomial(degree: number): Uint8Array {
+  const result = new Uint8Array(degree);
+  result[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMul(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMul(root, 2);
+  }
+  return result;
+}
+
+/**
+ * Computes error correction codewords: the remainder of data * x^degree divided by the generator.
+ */
+export function computeEcc(data: ArrayLike<number>, generator: Uint8Array): Uint8Array {
+  const result = new Uint8Array(generator.length);
+  for (let i = 0; i < data.length; i++) {
+    const factor = data[i] ^ result[0];
+    result.copyWithin(0, 1);
+    result[result.length - 1] = 0;
+    for (let j = 0; j < generator.length; j++) {
+      result[j] ^= gfMul(generator[j], factor);
+    }
+  }
+  return result;
+}
+
+/**
+ * Evaluates a polynomial given lowest power first.
+ */
+function evaluate(poly: number[], x: number): number {
+  let result = 0;
+  for (let i = poly.length - 1; i >= 0; i--) {
+    result = gfMul(result, x) ^ poly[i];
+  }
+  return result;
+}
+
+/**
+ * Corrects errors in a block of data followed by `eccLen` error correction codewords, in place.
+ * Uses Berlekamp-Massey to find the error locator, Chien search for the error positions and
+ * Forney's algorithm for the error values.
+ * @returns The number of corrected codewords.
+ * @throws If the block has more errors than the code can correct.
+ */
+export function correctErrors(block: Uint8Array, eccLen: number): number {
+  const n = block.length;
+
+  // Syndromes S_i = r(2^i); the generator roots start at 2^0.
+  const syndromes: number[] = [];
+  let clean = true;
+  for (let i = 0; i < eccLen; i++) {
+    let s = 0;
+    for (let j = 0; j < n; j++) s = gfMul(s, gfPow2(i)) ^ block[j];
+    syndromes.push(s);
+    if (s !== 0) clean = false;
+  }
+  if (clean) return 0;
+
+  // Berlekamp-Massey, polynomials lowest power first.
+  let locator = [1];
+  let previous = [1];
+  let errors = 0;
+  let shift = 1;
+  let lastDiscrepancy = 1;
+  for (let k = 0; k < eccLen; k++) {
+    let discrepancy = syndromes[k];
+    for (let i = 1; i <= errors; i++) {
+      discrepancy ^= gfMul(locator[i] ?? 0, syndromes[k - i]);
+    }
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+
+    const factor = gfDiv(discrepancy, lastDiscrepancy);
+    const next = locator.slice();
+    previous.forEach((coefficient, i) => {
+      next[i + shift] = (next[i + shift] ?? 0) ^ gfMul(factor, coefficient);
+    });
+
+    if (2 * errors <= k) {
+      previous = locator;
+      errors = k + 1 - errors;
+      lastDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+  if (errors * 2 > eccLen) throw new Error("Too many errors to correct.");
+
+  // Chien search: codeword j is the coefficient of x^(n-1-j).
+  const positions: number[] = [];
+  for (let j = 0; j < n; j++) {
+    if (evaluate(locator, gfPow2(-(n - 1 - j))) === 0) positions.push(j);
+  }
+  if (positions.length !== errors) {
+    throw new Error("Could not locate all errors.");
+  }
+
+  // Forney: e = X * omega(X^-1) / locator'(X^-1), omega = S(x) * locator(x) mod x^eccLen.
+  const omega = new Array<number>(eccLen).fill(0);
+  for (let i = 0; i < eccLen; i++) {
+    for (let j = 0; j <= i && j < locator.length; j++) {
+      omega[i] ^= gfMul(syndromes[i - j], locator[j]);
+    }
+  }
+  const derivative = locator.map((coefficient, i) => (i % 2 ? coefficient : 0)).slice(1);
+
+  for (const j of positions) {
+    const x = gfPow2(n - 1 - j);
+    const xInverse = gfPow2(-(n - 1 - j));
+    const denominator = evaluate(derivative, xInverse);
+    if (denominator === 0) throw new Error("Could not compute error value.");
+    block[j] ^= gfMul(x, gfDiv(evaluate(omega, xInverse), denominator));
+  }
+  return errors;
+}
@@ -0,0 +1,123 @@
+import type { QrCode } from "@/qr/encoder";
+
+export interface QrRenderOptions {
+  /** @default "#000000" */
+  dark?: string;
+  /** @default "#ffffff" */
+  light?: string;
+  /** Quiet zone width in modules. @default 4 */
+  margin?: number;
+  /** Text lines drawn below the code, e.g. a name badge. */
+  caption?: string[];
+}
+
+export interface QrPngOptions extends QrRenderOptions {
+  /** Pixels per module. @default 8 */
+  scale?: number;
+}
+
+/** Caption line height relative to the symbol width (including the quiet zone). */
+const CAPTION_LINE_HEIGHT = 1 / 10;
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function layout(code: QrCode, options: QrRenderOptions) {
+  const margin = options.margin ?? 4;
+  const width = code.size + margin * 2;
+  const lineHeight = width * CAPTION_LINE_HEIGHT;
+  const caption = options.caption ?? [];
+  return {
+    margin,
+    width,
+    height: width + (caption.length ? lineHeight * (caption.length + 0.5) : 0),
+    lineHeight,
+    caption,
+    dark: options.dark ?? "#000000",
+    light: options.light ?? "#ffffff",
+  };
+}
+
+/**
+ * Renders the code as a standalone SVG document. One unit of the view box is one module.
+ */
+export function renderSvg(code: QrCode, options: QrRenderOptions = {}): string {
+  const { margin, width, height, lineHeight, caption, dark, light } = layout(
+    code,
+    options,
+  );
+
+  let path = "";
+  code.modules.forEach((row, y) => {
+    row.forEach((isDark, x) => {
+      if (isDark) path += `M${x + margin},${y + margin}h1v1h-1z`;
+    });
+  });
+
+  const text = caption
+    .map(
+      (line, i) =>
+        `<text x="${width / 2}" y="${width + lineHeight * (i + 0.5)}" font-size="${lineHeight * 0.7}" font-family="sans-serif" text-anchor="middle" fill="${escapeXml(dark)}">${escapeXml(line)}</text>`,
+    )
+    .join("");
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="${escapeXml(light)}"/>` +
+    `<path d="${path}" fill="${escapeXml(dark)}"/>` +
+    text +
+    "</svg>"
+  );
+}
+
+/**
+ * Renders the code to a PNG image through a canvas.
+ */
+export function renderPng(
+  code: QrCode,
+  options: QrPngOptions = {},
+): Promise<Blob> {
+  const scale = options.scale ?? 8;
+  const { margin, width, height, lineHeight, caption, dark, light } = layout(
+    code,
+    options,
+  );
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(width * scale);
+  canvas.height = Math.ceil(height * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    return Promise.reject(new Error("Canvas 2D context is not available."));
+  }
+
+  ctx.fillStyle = light;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = dark;
+  code.modules.forEach((row, y) => {
+    row.forEach((isDark, x) => {
+      if (isDark) {
+        ctx.fillRect((x + margin) * scale, (y + margin) * scale, scale, scale);
+      }
+    });
+  });
+
+  ctx.font = `${lineHeight * 0.7 * scale}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "alphabetic";
+  caption.forEach((line, i) => {
+    ctx.fillText(
+      line,
+      (width / 2) * scale,
+      (width + lineHeight * (i + 0.5)) * scale,
+    );
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error("Failed to encode the PNG image."));
+    }, "image/png");
+  });
+}
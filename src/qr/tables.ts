@@ -0,0 +1,174 @@
+/**
+ * QR code constants from ISO/IEC 18004, shared by the encoder and the decoder.
+ */
+
+export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export const ERROR_CORRECTION_LEVELS: ErrorCorrectionLevel[] = ["L", "M", "Q", "H"];
+
+export const MIN_VERSION = 1;
+export const MAX_VERSION = 40;
+
+/**
+ * The two format-information bits identifying each error correction level.
+ */
+export const FORMAT_BITS: Record<ErrorCorrectionLevel, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+// Indexed by version; index 0 is unused.
+const ECC_CODEWORDS_PER_BLOCK: Record<ErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<ErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+export function symbolSize(version: number): number {
+  return version * 4 + 17;
+}
+
+export function eccCodewordsPerBlock(
+  version: number,
+  ecl: ErrorCorrectionLevel,
+): number {
+  return ECC_CODEWORDS_PER_BLOCK[ecl][version];
+}
+
+export function errorCorrectionBlocks(
+  version: number,
+  ecl: ErrorCorrectionLevel,
+): number {
+  return ERROR_CORRECTION_BLOCKS[ecl][version];
+}
+
+/**
+ * @returns The number of modules available for data and error correction codewords, i.e.
+ * everything except function patterns and format/version information.
+ */
+export function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+export function totalCodewords(version: number): number {
+  return Math.floor(rawDataModules(version) / 8);
+}
+
+export function dataCodewords(
+  version: number,
+  ecl: ErrorCorrectionLevel,
+): number {
+  return (
+    totalCodewords(version) -
+    eccCodewordsPerBlock(version, ecl) * errorCorrectionBlocks(version, ecl)
+  );
+}
+
+/**
+ * @returns Center coordinates of the alignment patterns (used for both axes).
+ */
+export function alignmentPatternPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step =
+    Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (
+    let pos = symbolSize(version) - 7;
+    result.length < numAlign;
+    pos -= step
+  ) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+/**
+ * @returns 15 format bits (error correction level and mask, BCH protected and masked).
+ */
+export function formatInformation(
+  ecl: ErrorCorrectionLevel,
+  mask: number,
+): number {
+  const data = (FORMAT_BITS[ecl] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) {
+    rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  }
+  return ((data << 10) | rem) ^ 0x5412;
+}
+
+/**
+ * @returns 18 version information bits, only present in versions 7 and up.
+ */
+export function versionInformation(version: number): number {
+  let rem = version;
+  for (let i = 0; i < 12; i++) {
+    rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  }
+  return (version << 12) | rem;
+}
+
+/**
+ * @returns True if the module at (x, y) is inverted by the mask pattern.
+ */
+export function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    case 7:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      throw new Error(`Invalid mask pattern ${mask}.`);
+  }
+}
+
+/**
+ * Character count indicator length for a mode indicator and version.
+ */
+export function charCountBits(mode: number, version: number): number {
+  const range = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+  switch (mode) {
+    case 0x1:
+      return [10, 12, 14][range];
+    case 0x2:
+      return [9, 11, 13][range];
+    case 0x4:
+      return [8, 16, 16][range];
+    case 0x8:
+      return [8, 10, 12][range];
+    default:
+      throw new Error(`Unsupported mode indicator ${mode}.`);
+  }
+}
+
+export const ALPHANUMERIC_CHARSET =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
@@ -0,0 +1,187 @@
+import { initData } from "@tma.js/sdk-react";
+
+import { logger } from "@/logging/logger";
+import type { QrPayload } from "@/scan/payload";
+import { supabase } from "@/supabaseClient";
+
+/**
+ * Duplicate scan detection. Every recorded scan is remembered on the device under a normalized
+ * key, so the same code scanned again within the window (an accidental second scan) can be
+ * held back before it is recorded or triggers its action again. The server history stores the
+ * same key in `scans.dedupe_key`.
+ */
+
+export interface DedupeOptions {
+  /** Repeats within this many milliseconds are duplicates. 0 turns detection off. */
+  window: number;
+  /** Also look for the payload in the server history, e.g. scanned on another device. */
+  checkServer: boolean;
+}
+
+export type DuplicateCheck =
+  | { duplicate: false }
+  | {
+      duplicate: true;
+      /** ISO timestamp of the previous scan. */
+      lastScannedAt: string;
+      source: "device" | "server";
+    };
+
+const STORAGE_PREFIX = "scan:dedupe:";
+/** Entries older than the longest window the settings offer are dropped. */
+const MAX_AGE = 24 * 60 * 60 * 1000;
+
+const log = logger("scanner");
+
+// Tracking parameters that don't change which page a link opens.
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|yclid|mc_eid|_ga)$/i;
+
+/**
+ * @returns A key under which equivalent payloads compare equal: URLs without tracking
+ * parameters, fragment and trailing slash, Wi-Fi and GS1 codes by their identifying fields,
+ * text with collapsed whitespace.
+ */
+export function normalizePayload(payload: QrPayload): string {
+  switch (payload.type) {
+    case "url": {
+      try {
+        const url = new URL(payload.url);
+        url.hash = "";
+        url.hostname = url.hostname.replace(/^www\./, "");
+        [...url.searchParams.keys()]
+          .filter((key) => TRACKING_PARAMS.test(key))
+          .forEach((key) => url.searchParams.delete(key));
+        url.searchParams.sort();
+        return `url:${url.toString().replace(/\/(?=$|\?)/, "")}`;
+      } catch {
+        return `url:${payload.url}`;
+      }
+    }
+    case "telegram":
+      return `telegram:${payload.url.toLowerCase()}`;
+    case "wifi":
+      return [
+        "wifi",
+        payload.ssid,
+        payload.security ?? "",
+        payload.password ?? "",
+      ].join(":");
+    case "gs1":
+      // The same item, however it was encoded (element string or Digital Link).
+      return `gs1:${payload.elements
+        .map((element) => `${element.ai}=${element.value}`)
+        .sort()
+        .join("&")}`;
+    case "text":
+      return `text:${payload.text.replace(/\s+/g, " ")}`;
+    default:
+      return `${payload.type}:${payload.raw}`;
+  }
+}
+
+function storageKey(): string {
+  // Another Telegram account on the same device doesn't see these scans as duplicates.
+  return `${STORAGE_PREFIX}${initData.state()?.user?.id ?? "anonymous"}`;
+}
+
+function readSeen(): Record<string, number> {
+  try {
+    const stored = localStorage.getItem(storageKey());
+    return stored ? (JSON.parse(stored) as Record<string, number>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Remembers that the payload was recorded now.
+ */
+export function markScanned(payload: QrPayload, at = Date.now()): void {
+  const seen = readSeen();
+  seen[normalizePayload(payload)] = at;
+  const fresh = Object.entries(seen).filter(([, time]) => at - time < MAX_AGE);
+  try {
+    localStorage.setItem(
+      storageKey(),
+      JSON.stringify(Object.fromEntries(fresh)),
+    );
+  } catch {
+    // Storage full or unavailable: detection falls back to the server check.
+  }
+}
+
+/**
+ * Forgets the payloads recorded by the current user, e.g. on sign-out.
+ */
+export function clearScanDedupe(): void {
+  try {
+    localStorage.removeItem(storageKey());
+  } catch {
+    // Storage unavailable: nothing was remembered.
+  }
+}
+
+async function findOnServer(
+  payload: QrPayload,
+  since: Date,
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("scans")
+    .select("scanned_at")
+    .eq("dedupe_key", normalizePayload(payload))
+    .gte("scanned_at", since.toISOString())
+    .order("scanned_at", { ascending: false })
+    .limit(1)
+    .returns<{ scanned_at: string }[]>();
+
+  if (error) throw error;
+  return data[0]?.scanned_at ?? null;
+}
+
+/**
+ * Checks whether the payload was recorded within the window. A failing server check counts as
+ * no duplicate, so a network problem never blocks scanning.
+ */
+export async function checkDuplicate(
+  payload: QrPayload,
+  { window, checkServer }: DedupeOptions,
+): Promise<DuplicateCheck> {
+  if (window <= 0) return { duplicate: false };
+
+  const now = Date.now();
+  const last = readSeen()[normalizePayload(payload)];
+  if (last !== undefined && now - last < window) {
+    return {
+      duplicate: true,
+      lastScannedAt: new Date(last).toISOString(),
+      source: "device",
+    };
+  }
+
+  if (checkServer) {
+    try {
+      const lastScannedAt = await findOnServer(payload, new Date(now - window));
+      if (lastScannedAt) {
+        return { duplicate: true, lastScannedAt, source: "server" };
+      }
+    } catch (e) {
+      log.warn("Server duplicate check failed", { error: e });
+    }
+  }
+
+  return { duplicate: false };
+}
+
+/**
+ * Formats how long ago a scan happened, e.g. "2 min ago".
+ */
+export function formatScannedAgo(iso: string, now = Date.now()): string {
+  const seconds = Math.max(0, Math.round((now - Date.parse(iso)) / 1000));
+  if (seconds < 10) return "just now";
+  if (seconds < 60) return `${seconds} s ago`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `on ${new Date(iso).toLocaleDateString()}`;
+}
@@ -0,0 +1,187 @@
+import { copyTextToClipboard } from "@tma.js/sdk-react";
+
+import type { ScanRecord } from "@/scan/history";
+import type { QrPayloadType } from "@/scan/payload";
+import { supabase } from "@/supabaseClient";
+
+/**
+ * Scan history export for spreadsheets and other tools: the selected scans as CSV or JSON,
+ * saved on the device, copied, or sent to the user's chat with the bot.
+ */
+
+export type ScanExportFormat = "csv" | "json";
+
+export interface ScanExportFilter {
+  /** First day to include, as YYYY-MM-DD in local time. */
+  from: string | null;
+  /** Last day to include, as YYYY-MM-DD in local time. */
+  to: string | null;
+  /** Empty exports every type. */
+  types: QrPayloadType[];
+}
+
+export interface ScanExport {
+  format: ScanExportFormat;
+  fileName: string;
+  mimeType: string;
+  content: string;
+  count: number;
+}
+
+const PAGE_SIZE = 1000;
+/** The byte order mark makes Excel read a CSV file as UTF-8. */
+const BOM = "\uFEFF";
+const CSV_COLUMNS = [
+  "scanned_at",
+  "payload_type",
+  "payload",
+  "telegram_id",
+  "id",
+] as const;
+
+/**
+ * Loads every scan matching the filter, oldest first, in pages.
+ * @throws If a request fails.
+ */
+async function fetchScans(filter: ScanExportFilter): Promise<ScanRecord[]> {
+  const scans: ScanRecord[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let request = supabase
+      .from("scans")
+      .select("*")
+      .order("scanned_at", { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (filter.from) {
+      request = request.gte(
+        "scanned_at",
+        new Date(`${filter.from}T00:00:00`).toISOString(),
+      );
+    }
+    if (filter.to) {
+      // Up to the end of the day: before the start of the next one.
+      const end = new Date(`${filter.to}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      request = request.lt("scanned_at", end.toISOString());
+    }
+    if (filter.types.length) {
+      request = request.in("payload_type", filter.types);
+    }
+
+    const { data, error } = await request.returns<ScanRecord[]>();
+    if (error) throw error;
+    scans.push(...data);
+    if (data.length < PAGE_SIZE) return scans;
+  }
+}
+
+/**
+ * Quotes a CSV field (RFC 4180). Values a spreadsheet would run as a formula get a leading
+ * apostrophe, so a scanned "=HYPERLINK(...)" stays text.
+ */
+function csvField(value: string | number | null): string {
+  let text = value === null ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatScans(
+  scans: ScanRecord[],
+  format: ScanExportFormat,
+): string {
+  if (format === "json") {
+    return JSON.stringify(
+      scans.map((scan) =>
+        Object.fromEntries(
+          CSV_COLUMNS.map((column) => [column, scan[column]]),
+        ),
+      ),
+      null,
+      2,
+    );
+  }
+  return [
+    CSV_COLUMNS.join(","),
+    ...scans.map((scan) =>
+      CSV_COLUMNS.map((column) => csvField(scan[column])).join(","),
+    ),
+  ].join("\r\n");
+}
+
+/**
+ * Builds the export file for the current profile's scans.
+ * @throws If loading the scans fails.
+ */
+export async function createScanExport(
+  filter: ScanExportFilter,
+  format: ScanExportFormat,
+): Promise<ScanExport> {
+  const scans = await fetchScans(filter);
+  const range = [filter.from, filter.to].filter(Boolean).join("_to_");
+  return {
+    format,
+    fileName: `scans${range ? `-${range}` : ""}.${format}`,
+    mimeType: format === "csv" ? "text/csv" : "application/json",
+    content: formatScans(scans, format),
+    count: scans.length,
+  };
+}
+
+/**
+ * Saves the file through the system share sheet where files can be shared (mobile), otherwise
+ * as a download.
+ */
+export async function saveScanExport(file: ScanExport): Promise<void> {
+  const data = file.format === "csv" ? BOM + file.content : file.content;
+  const shared = new File([data], file.fileName, { type: file.mimeType });
+
+  if (navigator.canShare?.({ files: [shared] })) {
+    await navigator.share({ files: [shared], title: file.fileName });
+    return;
+  }
+
+  const url = URL.createObjectURL(shared);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.fileName;
+  link.click();
+  // Give the browser time to start the download before the URL is revoked.
+  window.setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+export async function copyScanExport(file: ScanExport): Promise<void> {
+  await copyTextToClipboard(file.content);
+}
+
+/**
+ * Asks the `send-scan-export` edge function (supabase/functions/send-scan-export) to send the
+ * file to the user's chat with the bot as a document. The function looks up the chat from the
+ * profile's bound Telegram id.
+ * @throws If there is no Supabase session or the function fails.
+ */
+export async function sendScanExportToChat(file: ScanExport): Promise<void> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error("Cannot send export: no Supabase session.");
+  }
+
+  const response = await supabase.functions.invoke<unknown>(
+    "send-scan-export",
+    {
+      body: {
+        fileName: file.fileName,
+        mimeType: file.mimeType,
+        content: file.content,
+        count: file.count,
+      },
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    },
+  );
+
+  // supabase-js types the error as any; when set, it is a FunctionsError.
+  if (response.error) throw response.error as Error;
+}
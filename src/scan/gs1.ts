@@ -0,0 +1,391 @@
+import { GROUP_SEPARATOR } from "@/qr/decoder";
+
+/**
+ * GS1 Application Identifier (AI) parsing for product labels, in both forms used in QR codes:
+ *
+ * - element strings: `01095060001343521725122510ABC123`, with FNC1 (ASCII group separator)
+ *   ending variable-length fields, optionally prefixed by a symbology identifier (`]Q3`) or
+ *   written with parentheses, `(01)09506000134352(17)251225(10)ABC123`;
+ * - GS1 Digital Link URLs: `https://id.gs1.org/01/09506000134352/10/ABC123?17=251225`, on
+ *   the GS1 resolver or one of {@link GS1_RESOLVER_HOSTS}.
+ *
+ * @see https://ref.gs1.org/ai/
+ * @see https://ref.gs1.org/standards/digital-link/
+ */
+
+export interface Gs1Element {
+  ai: string;
+  title: string;
+  /** The value as encoded. */
+  value: string;
+  /** Dates as YYYY-MM-DD, measures with their decimal point applied. */
+  display: string;
+}
+
+export interface Gs1Data {
+  source: "element-string" | "digital-link";
+  elements: Gs1Element[];
+  /** GTIN-14 (AI 01), null when the code carries another key. */
+  gtin: string | null;
+  /** True when the GTIN check digit is correct, null without a GTIN. */
+  gtinValid: boolean | null;
+  /** AI 10. */
+  batch: string | null;
+  /** AI 17, as YYYY-MM-DD. */
+  expiry: string | null;
+  /** AI 21. */
+  serial: string | null;
+  /** AI 30 or 37. */
+  quantity: number | null;
+}
+
+type Gs1Format = "numeric" | "alphanumeric" | "date" | "decimal";
+
+interface AiDefinition {
+  /** The AI, or its first three digits for AIs ending in a decimal point position. */
+  ai: string;
+  title: string;
+  format: Gs1Format;
+  /** Data length of fixed-length AIs. */
+  length?: number;
+  /** Maximum data length of variable-length AIs. */
+  maxLength?: number;
+}
+
+const AI_DEFINITIONS: AiDefinition[] = [
+  { ai: "00", title: "SSCC", format: "numeric", length: 18 },
+  { ai: "01", title: "GTIN", format: "numeric", length: 14 },
+  { ai: "02", title: "GTIN of contained items", format: "numeric", length: 14 },
+  { ai: "10", title: "Batch/lot", format: "alphanumeric", maxLength: 20 },
+  { ai: "11", title: "Production date", format: "date", length: 6 },
+  { ai: "12", title: "Due date", format: "date", length: 6 },
+  { ai: "13", title: "Packaging date", format: "date", length: 6 },
+  { ai: "15", title: "Best before", format: "date", length: 6 },
+  { ai: "16", title: "Sell by", format: "date", length: 6 },
+  { ai: "17", title: "Expiry date", format: "date", length: 6 },
+  { ai: "20", title: "Variant", format: "numeric", length: 2 },
+  { ai: "21", title: "Serial number", format: "alphanumeric", maxLength: 20 },
+  { ai: "22", title: "Consumer product variant", format: "alphanumeric", maxLength: 20 },
+  { ai: "240", title: "Additional product id", format: "alphanumeric", maxLength: 30 },
+  { ai: "241", title: "Customer part number", format: "alphanumeric", maxLength: 30 },
+  { ai: "250", title: "Secondary serial number", format: "alphanumeric", maxLength: 30 },
+  { ai: "30", title: "Count", format: "numeric", maxLength: 8 },
+  { ai: "310", title: "Net weight (kg)", format: "decimal", length: 6 },
+  { ai: "311", title: "Length (m)", format: "decimal", length: 6 },
+  { ai: "315", title: "Net volume (l)", format: "decimal", length: 6 },
+  { ai: "320", title: "Net weight (lb)", format: "decimal", length: 6 },
+  { ai: "37", title: "Count of trade items", format: "numeric", maxLength: 8 },
+  { ai: "390", title: "Amount payable", format: "decimal", maxLength: 15 },
+  { ai: "392", title: "Price", format: "decimal", maxLength: 15 },
+  { ai: "400", title: "Customer order number", format: "alphanumeric", maxLength: 30 },
+  { ai: "410", title: "Ship to GLN", format: "numeric", length: 13 },
+  { ai: "414", title: "Location GLN", format: "numeric", length: 13 },
+  { ai: "420", title: "Ship to postal code", format: "alphanumeric", maxLength: 20 },
+  { ai: "422", title: "Country of origin", format: "numeric", length: 3 },
+  { ai: "7003", title: "Expiry date and time", format: "numeric", length: 10 },
+  { ai: "8003", title: "GRAI", format: "alphanumeric", maxLength: 30 },
+  { ai: "8004", title: "GIAI", format: "alphanumeric", maxLength: 30 },
+  { ai: "8020", title: "Payment slip reference", format: "alphanumeric", maxLength: 25 },
+  { ai: "90", title: "Internal information", format: "alphanumeric", maxLength: 30 },
+  ...["91", "92", "93", "94", "95", "96", "97", "98", "99"].map(
+    (ai): AiDefinition => ({
+      ai,
+      title: "Company internal",
+      format: "alphanumeric",
+      maxLength: 90,
+    }),
+  ),
+];
+
+/** Digital Link path keys that identify the item; the rest of the path qualifies it. */
+const PRIMARY_KEYS = ["01", "00", "414", "8003", "8004"];
+
+/** Short names used by early Digital Link URLs. */
+const LEGACY_KEYS: Record<string, string> = {
+  gtin: "01",
+  sscc: "00",
+  gln: "414",
+  cpv: "22",
+  lot: "10",
+  ser: "21",
+};
+
+const SYMBOLOGY_PREFIX = /^\][A-Za-z]\d/;
+
+/**
+ * @returns The definition and the full AI at the start of `value`, e.g. "3103" for net weight
+ * with three decimals.
+ */
+function matchAi(
+  value: string,
+): { definition: AiDefinition; ai: string } | null {
+  for (const definition of AI_DEFINITIONS) {
+    // Decimal AIs end in a digit giving the position of the decimal point.
+    const length =
+      definition.ai.length + (definition.format === "decimal" ? 1 : 0);
+    const ai = value.slice(0, length);
+    if (
+      ai.length === length &&
+      ai.startsWith(definition.ai) &&
+      /^\d+$/.test(ai)
+    ) {
+      return { definition, ai };
+    }
+  }
+  return null;
+}
+
+function definitionOf(ai: string): AiDefinition | null {
+  const match = matchAi(ai);
+  return match && match.ai === ai ? match.definition : null;
+}
+
+/**
+ * Calculates the GS1 check digit (mod 10, weights 3 and 1 from the right) of the digits
+ * preceding it.
+ */
+export function gs1CheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Checks a GTIN-8, -12, -13 or -14 including its check digit.
+ */
+export function isValidGtin(gtin: string): boolean {
+  return (
+    /^(\d{8}|\d{12,14})$/.test(gtin) &&
+    gs1CheckDigit(gtin.slice(0, -1)) === Number(gtin[gtin.length - 1])
+  );
+}
+
+/**
+ * Expands a YYMMDD date. The century puts the year within 49 years before and 50 years after
+ * the current year; day "00" stands for the last day of the month.
+ */
+function parseGs1Date(value: string, now = new Date()): string | null {
+  const match = /^(\d{2})(\d{2})(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [, yy, mm, dd] = match.map(Number);
+  if (mm < 1 || mm > 12) return null;
+
+  const currentYear = now.getUTCFullYear();
+  let year = Math.floor(currentYear / 100) * 100 + yy;
+  if (year - currentYear > 50) year -= 100;
+  else if (currentYear - year > 49) year += 100;
+
+  const lastDay = new Date(Date.UTC(year, mm, 0)).getUTCDate();
+  const day = dd === 0 ? lastDay : dd;
+  if (day > lastDay) return null;
+
+  return `${year}-${String(mm).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function isValidValue(definition: AiDefinition, value: string): boolean {
+  if (definition.length !== undefined && value.length !== definition.length) {
+    return false;
+  }
+  if (
+    definition.maxLength !== undefined &&
+    value.length > definition.maxLength
+  ) {
+    return false;
+  }
+  if (!value) return false;
+  if (definition.format === "alphanumeric") {
+    // GS1 AI encodable character set 82.
+    return /^[!"%-?A-Z_a-z]+$/.test(value);
+  }
+  if (definition.format === "date") return parseGs1Date(value) !== null;
+  return /^\d+$/.test(value);
+}
+
+function createElement(
+  ai: string,
+  definition: AiDefinition,
+  value: string,
+): Gs1Element {
+  let display = value;
+  if (definition.format === "date") {
+    display = parseGs1Date(value) ?? value;
+  } else if (definition.format === "decimal") {
+    const decimals = Number(ai[ai.length - 1]);
+    display = decimals
+      ? String(Number(value) / 10 ** decimals)
+      : String(Number(value));
+  }
+  return { ai, title: definition.title, value, display };
+}
+
+function summarize(
+  source: Gs1Data["source"],
+  elements: Gs1Element[],
+): Gs1Data {
+  const find = (ai: string) => elements.find((element) => element.ai === ai);
+  const gtin = find("01")?.value ?? null;
+  const quantity = find("30") ?? find("37");
+  return {
+    source,
+    elements,
+    gtin,
+    gtinValid: gtin === null ? null : isValidGtin(gtin),
+    batch: find("10")?.value ?? null,
+    expiry: find("17")?.display ?? null,
+    serial: find("21")?.value ?? null,
+    quantity: quantity ? Number(quantity.value) : null,
+  };
+}
+
+/**
+ * Parses "(01)09506000134352(10)ABC" into elements.
+ */
+function parseBracketed(value: string): Gs1Element[] | null {
+  const elements: Gs1Element[] = [];
+  const pattern = /\((\d{2,4})\)([^(]*)/gy;
+  let match: RegExpExecArray | null;
+  let end = 0;
+  while ((match = pattern.exec(value))) {
+    const [, ai, data] = match;
+    const definition = definitionOf(ai);
+    if (!definition || !isValidValue(definition, data)) return null;
+    elements.push(createElement(ai, definition, data));
+    end = pattern.lastIndex;
+  }
+  return elements.length && end === value.length ? elements : null;
+}
+
+/**
+ * Parses an unbracketed element string. Fixed-length fields are read by length, variable ones
+ * up to the next FNC1 or the end.
+ */
+function parseConcatenated(value: string): Gs1Element[] | null {
+  const elements: Gs1Element[] = [];
+  let rest = value.startsWith(GROUP_SEPARATOR) ? value.slice(1) : value;
+
+  while (rest) {
+    const match = matchAi(rest);
+    if (!match) return null;
+    const { definition, ai } = match;
+    rest = rest.slice(ai.length);
+
+    let data: string;
+    if (definition.length !== undefined) {
+      data = rest.slice(0, definition.length);
+      rest = rest.slice(definition.length);
+    } else {
+      const separator = rest.indexOf(GROUP_SEPARATOR);
+      data = separator === -1 ? rest : rest.slice(0, separator);
+      rest = separator === -1 ? "" : rest.slice(separator);
+    }
+    if (!isValidValue(definition, data)) return null;
+    elements.push(createElement(ai, definition, data));
+
+    if (rest.startsWith(GROUP_SEPARATOR)) rest = rest.slice(1);
+  }
+  return elements.length ? elements : null;
+}
+
+/**
+ * Parses a GS1 element string.
+ *
+ * @param gs1 - The symbol was flagged as GS1 (FNC1 in first position). Without the flag, a
+ * symbology identifier or brackets, only strings starting with a valid GTIN are accepted, so
+ * plain numbers aren't mistaken for GS1 data.
+ * @returns Null when the value is not a well-formed element string.
+ */
+export function parseGs1ElementString(
+  value: string,
+  gs1 = false,
+): Gs1Data | null {
+  const hasPrefix = SYMBOLOGY_PREFIX.test(value);
+  const body = hasPrefix ? value.slice(3) : value;
+
+  if (body.startsWith("(")) {
+    const elements = parseBracketed(body);
+    return elements && summarize("element-string", elements);
+  }
+
+  const elements = parseConcatenated(body);
+  if (!elements) return null;
+  if (!gs1 && !hasPrefix && !body.startsWith(GROUP_SEPARATOR)) {
+    const [first] = elements;
+    if (first.ai !== "01" || !isValidGtin(first.value)) return null;
+  }
+  return summarize("element-string", elements);
+}
+
+/**
+ * Hosts whose URLs are read as Digital Links: the GS1 resolver and the brand resolvers from the
+ * VITE_GS1_RESOLVER_HOSTS env var (comma-separated). Subdomains are included. Other links keep
+ * opening as links, even if their path looks like a Digital Link.
+ */
+export const GS1_RESOLVER_HOSTS: string[] = [
+  "id.gs1.org",
+  ...((import.meta.env.VITE_GS1_RESOLVER_HOSTS as string | undefined) ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean),
+];
+
+/**
+ * Parses a GS1 Digital Link URL: a primary key and its qualifiers as path segments, other
+ * attributes as numeric query parameters. The path may start with segments of the brand's own.
+ * @param resolvers - hosts the URL must be on, see {@link GS1_RESOLVER_HOSTS}.
+ * @returns Null when the URL is not a Digital Link.
+ */
+export function parseGs1DigitalLink(
+  url: URL,
+  resolvers = GS1_RESOLVER_HOSTS,
+): Gs1Data | null {
+  const host = url.hostname.toLowerCase();
+  if (
+    !resolvers.some(
+      (resolver) => host === resolver || host.endsWith(`.${resolver}`),
+    )
+  ) {
+    return null;
+  }
+
+  let segments: string[];
+  try {
+    segments = url.pathname
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment));
+  } catch {
+    return null;
+  }
+  const keyOf = (segment: string) =>
+    LEGACY_KEYS[segment.toLowerCase()] ?? segment;
+
+  const start = segments.findIndex(
+    (segment, i) =>
+      PRIMARY_KEYS.includes(keyOf(segment)) && i + 1 < segments.length,
+  );
+  if (start === -1 || (segments.length - start) % 2 !== 0) return null;
+
+  const elements: Gs1Element[] = [];
+  const add = (ai: string, value: string) => {
+    const definition = definitionOf(ai);
+    // Digital Link allows GTIN-8, -12 and -13; element strings always carry 14 digits.
+    const data =
+      ai === "01" && /^\d{8,13}$/.test(value) ? value.padStart(14, "0") : value;
+    if (!definition || !isValidValue(definition, data)) return false;
+    elements.push(createElement(ai, definition, data));
+    return true;
+  };
+
+  for (let i = start; i < segments.length; i += 2) {
+    if (!add(keyOf(segments[i]), segments[i + 1])) return null;
+  }
+  for (const [key, value] of url.searchParams) {
+    // Non-numeric parameters (e.g. "linkType") are resolver instructions, not data.
+    if (/^\d{2,4}$/.test(key) && !add(key, value)) return null;
+  }
+
+  return summarize("digital-link", elements);
+}
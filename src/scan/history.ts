@@ -0,0 +1,120 @@
+import { supabase } from "@/supabaseClient";
+import type { QrPayloadType } from "@/scan/payload";
+
+/**
+ * A row of the `scans` table.
+ */
+export interface ScanRecord {
+  id: string;
+  /** The `profiles.id` (auth user id) the scan belongs to. */
+  profile_id: string;
+  telegram_id: number | null;
+  /** Set for scans uploaded from the offline queue. */
+  client_id: string | null;
+  payload: string;
+  /** The payload's duplicate detection key, see `normalizePayload`. */
+  dedupe_key: string | null;
+  payload_type: QrPayloadType;
+  scanned_at: string;
+}
+
+export interface ScanHistoryFilter {
+  type?: QrPayloadType | null;
+  /** Case-insensitive substring of the payload. */
+  query?: string;
+  limit?: number;
+}
+
+/**
+ * A scan recorded on the device, waiting to be uploaded.
+ */
+export interface ScanUpload {
+  /** Generated on the device; identifies the scan across upload retries. */
+  clientId: string;
+  payload: string;
+  /** See `normalizePayload`. */
+  dedupeKey: string;
+  payloadType: QrPayloadType;
+  telegramId: number | null;
+  scannedAt: string;
+}
+
+/**
+ * Saves a scan to the `scans` table for the signed-in profile. Uploading the same `clientId`
+ * again is a no-op, so retries after a lost response are safe.
+ * @throws If there is no Supabase session or the upsert fails.
+ */
+export async function uploadScan(scan: ScanUpload): Promise<void> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error("Cannot upload scan: no Supabase session.");
+  }
+
+  const { error } = await supabase.from("scans").upsert(
+    {
+      profile_id: session.user.id,
+      client_id: scan.clientId,
+      telegram_id: scan.telegramId,
+      payload: scan.payload,
+      dedupe_key: scan.dedupeKey,
+      payload_type: scan.payloadType,
+      scanned_at: scan.scannedAt,
+    },
+    { onConflict: "profile_id,client_id", ignoreDuplicates: true },
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Lists the current profile's scans, newest first. Row level security limits the result to
+ * the signed-in profile.
+ */
+export async function listScans(
+  filter: ScanHistoryFilter = {},
+): Promise<ScanRecord[]> {
+  let request = supabase
+    .from("scans")
+    .select("*")
+    .order("scanned_at", { ascending: false })
+    .limit(filter.limit ?? 200);
+
+  if (filter.type) {
+    request = request.eq("payload_type", filter.type);
+  }
+
+  const query = filter.query?.trim();
+  if (query) {
+    // Escape LIKE wildcards so the query is matched literally.
+    request = request.ilike("payload", `%${query.replace(/[\\%_]/g, "\\$&")}%`);
+  }
+
+  const { data, error } = await request.returns<ScanRecord[]>();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Deletes a single scan by its id.
+ */
+export async function deleteScan(id: string): Promise<void> {
+  const { error } = await supabase.from("scans").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/**
+ * Deletes the current profile's scans made before the given time. Run when the user confirms
+ * applying the history retention setting.
+ * @returns The number of deleted scans.
+ */
+export async function deleteScansBefore(before: Date): Promise<number> {
+  const { count, error } = await supabase
+    .from("scans")
+    .delete({ count: "exact" })
+    .lt("scanned_at", before.toISOString());
+  if (error) throw error;
+  return count ?? 0;
+}
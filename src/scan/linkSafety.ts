@@ -0,0 +1,266 @@
+import { popup } from "@tma.js/sdk-react";
+
+import { openUrl } from "@/helpers/telegramLinks";
+
+/**
+ * Domain lists used to decide how a scanned link is opened. A host matches an entry if it is
+ * equal to it or is one of its subdomains.
+ */
+export interface LinkPolicy {
+  allow: string[];
+  deny: string[];
+}
+
+export type LinkWarning =
+  | "insecure"
+  | "punycode"
+  | "mixed-script"
+  | "ip-literal"
+  | "shortener";
+
+export interface LinkAssessment {
+  url: string;
+  /** Host as it will be requested (ASCII / punycode). */
+  host: string;
+  /** Host with punycode labels decoded, as a human would read it. */
+  displayHost: string;
+  verdict: "allow" | "deny" | "confirm";
+  warnings: LinkWarning[];
+}
+
+const WARNING_TEXT: Record<LinkWarning, string> = {
+  insecure: "The link is not using HTTPS.",
+  punycode: "The domain contains international characters.",
+  "mixed-script": "The domain mixes alphabets and may imitate another site.",
+  "ip-literal": "The link points to a raw IP address.",
+  shortener: "The link uses a URL shortener and hides the final destination.",
+};
+
+const SHORTENERS = [
+  "bit.ly",
+  "bitly.com",
+  "buff.ly",
+  "cutt.ly",
+  "goo.gl",
+  "is.gd",
+  "ow.ly",
+  "rb.gy",
+  "rebrand.ly",
+  "s.id",
+  "shorturl.at",
+  "t.co",
+  "tiny.cc",
+  "tinyurl.com",
+  "v.gd",
+];
+
+function parseDomainList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase().replace(/^\*?\./, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Policy configured through the VITE_LINK_ALLOWLIST and VITE_LINK_DENYLIST env vars
+ * (comma-separated domains).
+ */
+export const defaultLinkPolicy: LinkPolicy = {
+  allow: parseDomainList(
+    import.meta.env.VITE_LINK_ALLOWLIST as string | undefined,
+  ),
+  deny: parseDomainList(import.meta.env.VITE_LINK_DENYLIST as string | undefined),
+};
+
+function matchesDomain(host: string, domains: string[]): boolean {
+  return domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+/**
+ * Decodes a single punycode label body (without the "xn--" prefix).
+ * @see https://datatracker.ietf.org/doc/html/rfc3492#section-6.2
+ */
+function decodePunycodeLabel(input: string): string {
+  const base = 36;
+  const tMin = 1;
+  const tMax = 26;
+  const skew = 38;
+  const damp = 700;
+
+  const adapt = (delta: number, numPoints: number, firstTime: boolean) => {
+    delta = firstTime ? Math.floor(delta / damp) : delta >> 1;
+    delta += Math.floor(delta / numPoints);
+    let k = 0;
+    while (delta > ((base - tMin) * tMax) >> 1) {
+      delta = Math.floor(delta / (base - tMin));
+      k += base;
+    }
+    return k + Math.floor(((base - tMin + 1) * delta) / (delta + skew));
+  };
+
+  const digit = (code: number) => {
+    if (code >= 48 && code <= 57) return code - 22;
+    if (code >= 65 && code <= 90) return code - 65;
+    if (code >= 97 && code <= 122) return code - 97;
+    throw new Error("Invalid punycode digit.");
+  };
+
+  const basicEnd = input.lastIndexOf("-");
+  const output =
+    basicEnd > 0
+      ? [...input.slice(0, basicEnd)].map((c) => c.codePointAt(0)!)
+      : [];
+  let n = 128;
+  let i = 0;
+  let bias = 72;
+
+  for (let idx = basicEnd > 0 ? basicEnd + 1 : 0; idx < input.length; ) {
+    const oldI = i;
+    for (let w = 1, k = base; ; k += base) {
+      if (idx >= input.length) throw new Error("Truncated punycode.");
+      const d = digit(input.charCodeAt(idx++));
+      i += d * w;
+      const t = k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias;
+      if (d < t) break;
+      w *= base - t;
+    }
+    bias = adapt(i - oldI, output.length + 1, oldI === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    output.splice(i++, 0, n);
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+function decodeHost(host: string): string {
+  return host
+    .split(".")
+    .map((label) => {
+      if (!label.startsWith("xn--")) return label;
+      try {
+        return decodePunycodeLabel(label.slice(4));
+      } catch {
+        return label;
+      }
+    })
+    .join(".");
+}
+
+/**
+ * @returns True if letters in a label come from more than one of the alphabets most often used
+ * in homograph attacks.
+ */
+function hasMixedScripts(host: string): boolean {
+  return host.split(".").some((label) => {
+    const scripts = new Set<string>();
+    for (const char of label) {
+      if (/[a-z\u00c0-\u024f]/i.test(char)) scripts.add("latin");
+      else if (/[\u0400-\u04ff]/.test(char)) scripts.add("cyrillic");
+      else if (/[\u0370-\u03ff]/.test(char)) scripts.add("greek");
+    }
+    return scripts.size > 1;
+  });
+}
+
+function isIpLiteral(host: string): boolean {
+  return host.startsWith("[") || /^\d{1,3}(\.\d{1,3}){3}$/.test(host);
+}
+
+/**
+ * Classifies a link against the policy and collects the reasons it may be unsafe.
+ */
+export function assessLink(
+  url: string,
+  policy: LinkPolicy = defaultLinkPolicy,
+): LinkAssessment {
+  const parsed = new URL(url);
+  const host = parsed.hostname.toLowerCase();
+  const displayHost = decodeHost(host);
+
+  const warnings: LinkWarning[] = [];
+  if (parsed.protocol !== "https:") warnings.push("insecure");
+  if (host.split(".").some((label) => label.startsWith("xn--"))) {
+    warnings.push("punycode");
+    if (hasMixedScripts(displayHost)) warnings.push("mixed-script");
+  }
+  if (isIpLiteral(host)) warnings.push("ip-literal");
+  if (matchesDomain(host, SHORTENERS)) warnings.push("shortener");
+
+  let verdict: LinkAssessment["verdict"] = "confirm";
+  if (matchesDomain(host, policy.deny)) {
+    verdict = "deny";
+  } else if (matchesDomain(host, policy.allow)) {
+    verdict = "allow";
+  }
+
+  return { url: parsed.toString(), host, displayHost, verdict, warnings };
+}
+
+/**
+ * Asks the user to confirm opening a link, using the Telegram popup when available.
+ * @returns True if the user confirmed.
+ */
+async function confirmLink(assessment: LinkAssessment): Promise<boolean> {
+  const host =
+    assessment.displayHost === assessment.host
+      ? assessment.host
+      : `${assessment.displayHost} (${assessment.host})`;
+  const message = [
+    `This link opens ${host}.`,
+    ...assessment.warnings.map((warning) => WARNING_TEXT[warning]),
+  ]
+    .join("\n")
+    // Telegram limits popup messages to 256 characters.
+    .slice(0, 256);
+
+  if (!popup.show.isAvailable()) {
+    return window.confirm(message);
+  }
+
+  const buttonId = await popup.show({
+    title: assessment.warnings.length ? "Check this link" : "Open link?",
+    message,
+    buttons: [
+      {
+        id: "open",
+        type: assessment.warnings.length ? "destructive" : "default",
+        text: "Open",
+      },
+      { type: "cancel" },
+    ],
+  });
+  return buttonId === "open";
+}
+
+/**
+ * Opens a scanned link according to the policy: allowed domains open directly (unless
+ * `autoOpenTrusted` is off), denied ones are blocked, everything else requires confirmation.
+ * @returns The assessment and whether the link was actually opened.
+ */
+export async function openScannedLink(
+  url: string,
+  policy: LinkPolicy = defaultLinkPolicy,
+  { autoOpenTrusted = true }: { autoOpenTrusted?: boolean } = {},
+): Promise<LinkAssessment & { opened: boolean }> {
+  const assessment = assessLink(url, policy);
+
+  if (assessment.verdict === "deny") {
+    const message = `Links to ${assessment.displayHost} are blocked.`;
+    if (popup.show.isAvailable()) {
+      await popup.show({ title: "Link blocked", message });
+    } else {
+      window.alert(message);
+    }
+    return { ...assessment, opened: false };
+  }
+
+  const needsConfirmation =
+    assessment.verdict === "confirm" || !autoOpenTrusted;
+  if (needsConfirmation && !(await confirmLink(assessment))) {
+    return { ...assessment, opened: false };
+  }
+
+  openUrl(assessment.url);
+  return { ...assessment, opened: true };
+}
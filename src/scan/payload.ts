@@ -0,0 +1,714 @@
+import {
+  parseGs1DigitalLink,
+  parseGs1ElementString,
+  type Gs1Data,
+} from "@/scan/gs1";
+
+/**
+ * Typed representation of a scanned QR payload.
+ *
+ * Every variant carries the original `raw` string so callers can always fall back to showing
+ * (or copying) exactly what the scanner returned.
+ */
+export type QrPayload =
+  | UrlPayload
+  | WifiPayload
+  | ContactPayload
+  | EmailPayload
+  | PhonePayload
+  | SmsPayload
+  | GeoPayload
+  | OtpPayload
+  | PaymentPayload
+  | TonPayload
+  | TelegramPayload
+  | Gs1Payload
+  | JsonPayload
+  | TextPayload;
+
+export type QrPayloadType = QrPayload["type"];
+
+/** Every payload type, in the order filters list them. */
+export const QR_PAYLOAD_TYPES: QrPayloadType[] = [
+  "url",
+  "telegram",
+  "ton",
+  "wifi",
+  "contact",
+  "email",
+  "phone",
+  "sms",
+  "geo",
+  "otp",
+  "payment",
+  "gs1",
+  "json",
+  "text",
+];
+
+export interface UrlPayload {
+  type: "url";
+  raw: string;
+  /** Normalized absolute URL (bare "www." values get an https:// prefix). */
+  url: string;
+  host: string;
+}
+
+export interface WifiPayload {
+  type: "wifi";
+  raw: string;
+  ssid: string;
+  /** WPA, WEP, nopass, ... as written in the code (upper-cased), or null when omitted. */
+  security: string | null;
+  password: string | null;
+  hidden: boolean;
+}
+
+export interface ContactPayload {
+  type: "contact";
+  raw: string;
+  format: "vcard" | "mecard";
+  name: string | null;
+  phones: string[];
+  emails: string[];
+  organization: string | null;
+  title: string | null;
+  address: string | null;
+  url: string | null;
+  note: string | null;
+}
+
+export interface EmailPayload {
+  type: "email";
+  raw: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string | null;
+  body: string | null;
+}
+
+export interface PhonePayload {
+  type: "phone";
+  raw: string;
+  number: string;
+}
+
+export interface SmsPayload {
+  type: "sms";
+  raw: string;
+  number: string;
+  body: string | null;
+}
+
+export interface GeoPayload {
+  type: "geo";
+  raw: string;
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  query: string | null;
+}
+
+export interface OtpPayload {
+  type: "otp";
+  raw: string;
+  otpType: "totp" | "hotp";
+  issuer: string | null;
+  account: string;
+  secret: string;
+  algorithm: string;
+  digits: number;
+  /** TOTP step in seconds. */
+  period: number;
+  /** HOTP counter, null for TOTP. */
+  counter: number | null;
+}
+
+/**
+ * European Payments Council "SEPA Credit Transfer" QR (a.k.a. GiroCode).
+ * @see https://www.europeanpaymentscouncil.eu/document-library/guidance-documents/quick-response-code-guidelines-enable-data-capture-initiation
+ */
+export interface PaymentPayload {
+  type: "payment";
+  raw: string;
+  bic: string | null;
+  name: string;
+  iban: string;
+  currency: string | null;
+  amount: number | null;
+  purpose: string | null;
+  reference: string | null;
+  remittance: string | null;
+}
+
+export interface TonPayload {
+  type: "ton";
+  raw: string;
+  /** The URI host, e.g. "transfer". */
+  action: string;
+  address: string | null;
+  params: Record<string, string>;
+}
+
+export interface TelegramPayload {
+  type: "telegram";
+  raw: string;
+  /**
+   * Link in the https://t.me/... form when it can be derived, otherwise the raw tg:// link.
+   */
+  url: string;
+  /**
+   * tg:// host ("resolve", "join", ...) or the first t.me path segment (username, "+invite",
+   * "share", ...).
+   */
+  target: string;
+  params: Record<string, string>;
+}
+
+/**
+ * GS1 product data, from an element string or a Digital Link URL.
+ */
+export interface Gs1Payload extends Gs1Data {
+  type: "gs1";
+  raw: string;
+  /** The resolver URL of a Digital Link, null for element strings. */
+  digitalLink: string | null;
+}
+
+export interface JsonPayload {
+  type: "json";
+  raw: string;
+  value: unknown;
+}
+
+export interface TextPayload {
+  type: "text";
+  raw: string;
+  text: string;
+}
+
+/**
+ * Parses "K:V;K:V;;" bodies of WIFI: and MECARD: payloads. Repeated keys are kept in order.
+ */
+function parseFieldList(body: string): Map<string, string[]> {
+  const fields = new Map<string, string[]>();
+  for (const part of splitFields(body)) {
+    const idx = part.indexOf(":");
+    if (idx <= 0) continue;
+    const key = part.slice(0, idx).toUpperCase();
+    const value = unescapeField(part.slice(idx + 1));
+    fields.set(key, [...(fields.get(key) ?? []), value]);
+  }
+  return fields;
+}
+
+/**
+ * Splits a field list by unescaped ";". Escape sequences are kept so that escaped colons survive
+ * until the key/value split.
+ */
+function splitFields(value: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === "\\" && i + 1 < value.length) {
+      current += char + value[++i];
+    } else if (char === ";") {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.filter(Boolean);
+}
+
+function unescapeField(value: string): string {
+  return value.replace(/\\(.)/g, "$1");
+}
+
+function first(fields: Map<string, string[]>, key: string): string | null {
+  const value = fields.get(key)?.[0];
+  return value ? value : null;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function queryParams(search: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  new URLSearchParams(search).forEach((value, key) => {
+    params[key] = value;
+  });
+  return params;
+}
+
+function splitList(value: string | null | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => safeDecode(item.trim()))
+    .filter(Boolean);
+}
+
+/**
+ * Splits "<head>?<query>" into its two halves.
+ */
+function splitQuery(value: string): [string, string] {
+  const idx = value.indexOf("?");
+  return idx === -1 ? [value, ""] : [value.slice(0, idx), value.slice(idx + 1)];
+}
+
+function parseWifi(raw: string, body: string): WifiPayload | null {
+  const fields = parseFieldList(body);
+  const ssid = first(fields, "S");
+  if (!ssid) return null;
+  const security = first(fields, "T");
+  return {
+    type: "wifi",
+    raw,
+    ssid,
+    security: security ? security.toUpperCase() : null,
+    password: first(fields, "P"),
+    hidden: (first(fields, "H") ?? "").toLowerCase() === "true",
+  };
+}
+
+function parseMecard(raw: string, body: string): ContactPayload {
+  const fields = parseFieldList(body);
+  const name = first(fields, "N");
+  return {
+    type: "contact",
+    raw,
+    format: "mecard",
+    // MECARD stores names as "Last,First".
+    name: name
+      ? name
+          .split(",")
+          .map((part) => part.trim())
+          .filter(Boolean)
+          .reverse()
+          .join(" ")
+      : null,
+    phones: fields.get("TEL") ?? [],
+    emails: fields.get("EMAIL") ?? [],
+    organization: first(fields, "ORG"),
+    title: null,
+    address: first(fields, "ADR"),
+    url: first(fields, "URL"),
+    note: first(fields, "NOTE"),
+  };
+}
+
+function parseVcard(raw: string): ContactPayload {
+  // Unfold continuation lines (RFC 6350, section 3.2).
+  const lines = raw.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const props = new Map<string, string[]>();
+
+  for (const line of lines) {
+    const idx = line.indexOf(":");
+    if (idx <= 0) continue;
+    // Drop the optional group prefix ("item1.TEL") and parameters ("TEL;TYPE=cell").
+    const name = line.slice(0, idx).split(";")[0].split(".").pop()!.toUpperCase();
+    const value = line
+      .slice(idx + 1)
+      .replace(/\\n/gi, "\n")
+      .replace(/\\([,;\\])/g, "$1");
+    props.set(name, [...(props.get(name) ?? []), value]);
+  }
+
+  const firstProp = (key: string): string | null => {
+    const value = props.get(key)?.[0]?.trim();
+    return value ? value : null;
+  };
+
+  let name = firstProp("FN");
+  const structured = firstProp("N");
+  if (!name && structured) {
+    // N is "Family;Given;Additional;Prefix;Suffix".
+    const [family = "", given = "", additional = "", prefix = "", suffix = ""] =
+      structured.split(";");
+    name =
+      [prefix, given, additional, family, suffix]
+        .map((part) => part.trim())
+        .filter(Boolean)
+        .join(" ") || null;
+  }
+
+  const address = firstProp("ADR");
+
+  return {
+    type: "contact",
+    raw,
+    format: "vcard",
+    name,
+    phones: props.get("TEL") ?? [],
+    emails: props.get("EMAIL") ?? [],
+    organization: firstProp("ORG")?.replace(/;/g, ", ") ?? null,
+    title: firstProp("TITLE"),
+    address: address
+      ? address
+          .split(";")
+          .map((part) => part.trim())
+          .filter(Boolean)
+          .join(", ") || null
+      : null,
+    url: firstProp("URL"),
+    note: firstProp("NOTE"),
+  };
+}
+
+function parseMailto(raw: string, body: string): EmailPayload {
+  const [to, query] = splitQuery(body);
+  const params = new URLSearchParams(query);
+  return {
+    type: "email",
+    raw,
+    to: [...splitList(to), ...splitList(params.get("to"))],
+    cc: splitList(params.get("cc")),
+    bcc: splitList(params.get("bcc")),
+    subject: params.get("subject"),
+    body: params.get("body"),
+  };
+}
+
+function parseMatmsg(raw: string, body: string): EmailPayload {
+  const fields = parseFieldList(body);
+  return {
+    type: "email",
+    raw,
+    to: fields.get("TO") ?? [],
+    cc: [],
+    bcc: [],
+    subject: first(fields, "SUB"),
+    body: first(fields, "BODY"),
+  };
+}
+
+function parseSms(raw: string, body: string): SmsPayload | null {
+  // sms:<number>?body=<text>
+  const [number, query] = splitQuery(body);
+  if (!number.trim()) return null;
+  return {
+    type: "sms",
+    raw,
+    number: safeDecode(number.trim()),
+    body: new URLSearchParams(query).get("body"),
+  };
+}
+
+function parseSmsto(raw: string, body: string): SmsPayload | null {
+  // SMSTO:<number>:<text>
+  const idx = body.indexOf(":");
+  const number = (idx === -1 ? body : body.slice(0, idx)).trim();
+  if (!number) return null;
+  const text = idx === -1 ? "" : body.slice(idx + 1);
+  return { type: "sms", raw, number, body: text ? text : null };
+}
+
+function parseGeo(raw: string, body: string): GeoPayload | null {
+  // geo:<lat>,<lng>[,<alt>][;crs=...;u=...][?q=...] (RFC 5870 plus the common Android query).
+  const [coords, query] = splitQuery(body);
+  const [latitude, longitude, altitude] = coords
+    .split(";")[0]
+    .split(",")
+    .map((part) => Number(part.trim()));
+
+  if (
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return null;
+  }
+
+  return {
+    type: "geo",
+    raw,
+    latitude,
+    longitude,
+    altitude: Number.isFinite(altitude) ? altitude : null,
+    query: new URLSearchParams(query).get("q"),
+  };
+}
+
+function parseOtpauth(raw: string): OtpPayload | null {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+
+  // WHATWG URL parsing puts the type in `host` for non-special schemes.
+  const otpType = (url.host || url.pathname.replace(/^\/+/, "").split("/")[0])
+    .toLowerCase();
+  if (otpType !== "totp" && otpType !== "hotp") return null;
+
+  const secret = url.searchParams.get("secret");
+  if (!secret) return null;
+
+  // Label is "Issuer:account" or just "account".
+  const label = safeDecode(
+    url.host ? url.pathname.replace(/^\/+/, "") : url.pathname.split("/").pop() ?? "",
+  );
+  const colon = label.indexOf(":");
+  const labelIssuer = colon === -1 ? null : label.slice(0, colon).trim();
+  const account = (colon === -1 ? label : label.slice(colon + 1)).trim();
+
+  const digits = Number(url.searchParams.get("digits") ?? 6);
+  const period = Number(url.searchParams.get("period") ?? 30);
+  const counter = url.searchParams.get("counter");
+
+  return {
+    type: "otp",
+    raw,
+    otpType,
+    issuer: url.searchParams.get("issuer") || labelIssuer || null,
+    account,
+    secret: secret.replace(/\s+/g, "").toUpperCase(),
+    algorithm: (url.searchParams.get("algorithm") ?? "SHA1").toUpperCase(),
+    digits: Number.isFinite(digits) ? digits : 6,
+    period: Number.isFinite(period) ? period : 30,
+    counter: otpType === "hotp" && counter !== null ? Number(counter) : null,
+  };
+}
+
+function parseEpc(raw: string): PaymentPayload | null {
+  const lines = raw.split(/\r?\n/).map((line) => line.trim());
+  // 0: service tag, 1: version, 2: charset, 3: identification, 4: BIC, 5: name, 6: IBAN,
+  // 7: amount, 8: purpose, 9: structured reference, 10: unstructured remittance.
+  if (lines[0] !== "BCD" || lines[3] !== "SCT") return null;
+
+  const name = lines[5];
+  const iban = (lines[6] ?? "").replace(/\s+/g, "").toUpperCase();
+  if (!name || !iban) return null;
+
+  const amountMatch = /^([A-Z]{3})(\d+(?:\.\d{1,2})?)$/.exec(lines[7] ?? "");
+
+  return {
+    type: "payment",
+    raw,
+    bic: lines[4] || null,
+    name,
+    iban,
+    currency: amountMatch ? amountMatch[1] : null,
+    amount: amountMatch ? Number(amountMatch[2]) : null,
+    purpose: lines[8] || null,
+    reference: lines[9] || null,
+    remittance: lines[10] || null,
+  };
+}
+
+function parseTon(raw: string, body: string): TonPayload {
+  // ton://<action>/<address>?<params>
+  const [path, query] = splitQuery(body);
+  const [action = "", address = ""] = path.split("/");
+  return {
+    type: "ton",
+    raw,
+    action: action.toLowerCase(),
+    address: address ? safeDecode(address) : null,
+    params: queryParams(query),
+  };
+}
+
+function parseTgScheme(raw: string, body: string): TelegramPayload {
+  // tg://<target>?<params>
+  const [path, query] = splitQuery(body);
+  const target = path.replace(/\/+$/, "").toLowerCase();
+  const params = queryParams(query);
+
+  let url = raw;
+  if (target === "resolve" && params.domain) {
+    // tg://resolve?domain=<bot>&appname=<app>&startapp=<param> is a named Mini App link.
+    const search = new URLSearchParams(params);
+    search.delete("domain");
+    search.delete("appname");
+    const path = params.appname
+      ? `${params.domain}/${params.appname}`
+      : params.domain;
+    const rest = search.toString();
+    url = `https://t.me/${path}${rest ? `?${rest}` : ""}`;
+  } else if (target === "join" && params.invite) {
+    url = `https://t.me/+${params.invite}`;
+  } else if (target === "msg_url" && params.url) {
+    url = `https://t.me/share/url?${new URLSearchParams(params).toString()}`;
+  }
+
+  return { type: "telegram", raw, url, target, params };
+}
+
+const TELEGRAM_HOSTS = ["t.me", "telegram.me", "telegram.dog"];
+
+function parseTelegramUrl(raw: string, url: URL): TelegramPayload | null {
+  const host = url.hostname.toLowerCase();
+  if (!TELEGRAM_HOSTS.includes(host)) return null;
+
+  const canonical = new URL(url.toString());
+  canonical.protocol = "https:";
+  canonical.hostname = "t.me";
+
+  return {
+    type: "telegram",
+    raw,
+    url: canonical.toString(),
+    target: url.pathname.replace(/^\/+/, "").split("/")[0] ?? "",
+    params: queryParams(url.search),
+  };
+}
+
+/**
+ * Best-effort URL detection for common QR payloads.
+ * - Accepts http/https URLs.
+ * - Also treats "www.example.com" (and bare "t.me/...") as a URL and normalizes it to https.
+ */
+function parseHttpUrl(value: string): URL | null {
+  let candidate: string | null = null;
+  if (/^https?:\/\/\S+$/i.test(value)) {
+    candidate = value;
+  } else if (/^(www\.|t\.me\/|telegram\.me\/)\S+$/i.test(value)) {
+    candidate = `https://${value}`;
+  }
+  if (!candidate) return null;
+
+  try {
+    return new URL(candidate);
+  } catch {
+    return null;
+  }
+}
+
+function parseJson(raw: string): JsonPayload | null {
+  if (!/^[[{]/.test(raw)) return null;
+  try {
+    return { type: "json", raw, value: JSON.parse(raw) as unknown };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Strips a case-insensitive `prefix` from `value`, returning null if it is not there.
+ */
+function afterPrefix(value: string, prefix: string): string | null {
+  return value.slice(0, prefix.length).toLowerCase() === prefix.toLowerCase()
+    ? value.slice(prefix.length)
+    : null;
+}
+
+/**
+ * Turns a scanned QR string into a typed payload.
+ *
+ * Recognition is prefix-based and never throws: anything malformed falls through to the next
+ * candidate and, ultimately, to a `text` payload.
+ *
+ * @param options.gs1 - The symbol was flagged as GS1 data, as reported by the image decoder.
+ */
+export function classifyPayload(
+  value: string,
+  options: { gs1?: boolean } = {},
+): QrPayload {
+  const raw = value.trim();
+  let body: string | null;
+
+  const elementString = parseGs1ElementString(raw, options.gs1);
+  if (elementString) {
+    return { type: "gs1", raw, ...elementString, digitalLink: null };
+  }
+
+  if ((body = afterPrefix(raw, "WIFI:")) !== null) {
+    const wifi = parseWifi(raw, body);
+    if (wifi) return wifi;
+  }
+
+  if ((body = afterPrefix(raw, "MECARD:")) !== null) {
+    return parseMecard(raw, body);
+  }
+
+  if (/^BEGIN:VCARD/i.test(raw)) {
+    return parseVcard(raw);
+  }
+
+  if ((body = afterPrefix(raw, "mailto:")) !== null) {
+    return parseMailto(raw, body);
+  }
+
+  if ((body = afterPrefix(raw, "MATMSG:")) !== null) {
+    return parseMatmsg(raw, body);
+  }
+
+  if ((body = afterPrefix(raw, "tel:")) !== null && body.trim()) {
+    return { type: "phone", raw, number: safeDecode(body.trim()) };
+  }
+
+  if ((body = afterPrefix(raw, "SMSTO:")) !== null) {
+    const sms = parseSmsto(raw, body);
+    if (sms) return sms;
+  } else if ((body = afterPrefix(raw, "sms:")) !== null) {
+    const sms = parseSms(raw, body);
+    if (sms) return sms;
+  }
+
+  if ((body = afterPrefix(raw, "geo:")) !== null) {
+    const geo = parseGeo(raw, body);
+    if (geo) return geo;
+  }
+
+  if (afterPrefix(raw, "otpauth://") !== null) {
+    const otp = parseOtpauth(raw);
+    if (otp) return otp;
+  }
+
+  if (raw.startsWith("BCD\n") || raw.startsWith("BCD\r\n")) {
+    const payment = parseEpc(raw);
+    if (payment) return payment;
+  }
+
+  if ((body = afterPrefix(raw, "ton://")) !== null) {
+    return parseTon(raw, body);
+  }
+
+  if ((body = afterPrefix(raw, "tg://")) !== null) {
+    return parseTgScheme(raw, body);
+  }
+
+  const url = parseHttpUrl(raw);
+  if (url) {
+    const digitalLink = parseGs1DigitalLink(url);
+    if (digitalLink) {
+      return { type: "gs1", raw, ...digitalLink, digitalLink: url.toString() };
+    }
+    return (
+      parseTelegramUrl(raw, url) ?? {
+        type: "url",
+        raw,
+        url: /^https?:/i.test(raw) ? raw : `https://${raw}`,
+        host: url.hostname,
+      }
+    );
+  }
+
+  return parseJson(raw) ?? { type: "text", raw, text: raw };
+}
+
+/**
+ * @returns A link which can be passed to `openLink`, or null if the payload is not a link.
+ */
+export function payloadLink(payload: QrPayload): string | null {
+  switch (payload.type) {
+    case "url":
+      return payload.url;
+    case "telegram":
+      return payload.url.startsWith("https:") ? payload.url : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,206 @@
+import {
+  FunctionUnavailableError,
+  InvalidEnvError,
+  NotAvailableError,
+  qrScanner,
+} from "@tma.js/sdk-react";
+
+import { describeValue, logger } from "@/logging/logger";
+
+const log = logger("bridge");
+
+/**
+ * A single native QR scanner session as an explicit state machine:
+ *
+ * idle → opening → capturing → result | closed | timed_out | error
+ *
+ * `unsupported` is reached from `opening` when the client has no native scanner.
+ */
+export type QrCaptureState =
+  | { status: "idle" }
+  | { status: "opening" }
+  | { status: "capturing" }
+  | { status: "result"; value: string }
+  /** Closed by the user (or cancelled) without a result. */
+  | { status: "closed" }
+  /** Nothing was captured within the session timeout; the scanner was closed. */
+  | { status: "timed_out" }
+  | { status: "unsupported"; reason: string }
+  | { status: "error"; message: string; error: unknown };
+
+export type QrCaptureStatus = QrCaptureState["status"];
+
+/** The state a session ends in. */
+export type QrCaptureEnd = Exclude<
+  QrCaptureState,
+  { status: "idle" | "opening" | "capturing" }
+>;
+
+export interface QrCaptureOptions {
+  /** Prompt shown in the scanner. */
+  text?: string;
+  /**
+   * Decides whether a scanned code ends the session. Rejected codes keep the scanner open.
+   * Defaults to accepting any non-empty code.
+   */
+  accept?: (value: string) => boolean;
+  /** Closes the scanner if nothing was captured within this many milliseconds. */
+  timeout?: number;
+  /**
+   * How long to wait for `capture()` to settle after a code was accepted before closing the
+   * scanner ourselves. Defaults to {@link SETTLE_TIMEOUT}.
+   */
+  settleTimeout?: number;
+  onState?: (state: QrCaptureState) => void;
+}
+
+export interface QrCaptureSession {
+  /**
+   * Resolves exactly once with the state the session ended in. Never rejects, and settles even
+   * when the SDK promise doesn't.
+   */
+  result: Promise<QrCaptureEnd>;
+  /** Ends the session (closing the scanner) unless it already ended. */
+  cancel: () => void;
+}
+
+/**
+ * Some clients (seen on iOS) call the `capture()` callback but never resolve the promise.
+ */
+export const SETTLE_TIMEOUT = 3000;
+
+function describeError(e: unknown): string {
+  return e instanceof Error ? `${e.name}: ${e.message}` : String(e);
+}
+
+function isUnsupportedError(e: unknown): boolean {
+  return (
+    FunctionUnavailableError.is(e) ||
+    InvalidEnvError.is(e) ||
+    NotAvailableError.is(e)
+  );
+}
+
+// Id of the most recent session, so a stale session never closes a newer session's scanner.
+let latestSessionId = 0;
+
+function closeScanner(): void {
+  if (qrScanner.close.isAvailable()) {
+    qrScanner.close();
+  }
+}
+
+/**
+ * Opens the native scanner. The result is delivered from whichever comes first, the
+ * `capture()` callback or the resolved promise, and only once.
+ */
+export function startQrCapture(options: QrCaptureOptions = {}): QrCaptureSession {
+  const {
+    text,
+    accept = (value) => value.trim().length > 0,
+    timeout,
+    settleTimeout = SETTLE_TIMEOUT,
+    onState,
+  } = options;
+
+  const sessionId = ++latestSessionId;
+  let finished = false;
+  let settled = false;
+  let timeoutId: number | undefined;
+  let resolveResult!: (state: QrCaptureEnd) => void;
+  const result = new Promise<QrCaptureEnd>((resolve) => {
+    resolveResult = resolve;
+  });
+
+  const finish = (state: QrCaptureEnd) => {
+    if (finished) return;
+    finished = true;
+    window.clearTimeout(timeoutId);
+    onState?.(state);
+    resolveResult(state);
+  };
+
+  const deliver = (value: string) => {
+    if (finished) return;
+    finish({ status: "result", value });
+
+    window.setTimeout(() => {
+      if (settled || sessionId !== latestSessionId) return;
+      log.warn(
+        "qrScanner.capture() did not resolve after the code was accepted, closing the scanner",
+        { settleTimeout },
+      );
+      closeScanner();
+    }, settleTimeout);
+  };
+
+  const fail = (e: unknown) => {
+    const message = describeError(e);
+    log.error("qrScanner.capture() failed", { error: e });
+    finish(
+      isUnsupportedError(e)
+        ? { status: "unsupported", reason: message }
+        : { status: "error", message, error: e },
+    );
+  };
+
+  onState?.({ status: "opening" });
+
+  if (!qrScanner.capture.isAvailable()) {
+    log.warn("qrScanner.capture() is not available in this client");
+    finish({
+      status: "unsupported",
+      reason: "The native QR scanner is not available in this client.",
+    });
+    return { result, cancel: () => {} };
+  }
+
+  try {
+    qrScanner
+      .capture({
+        text,
+        capture(value) {
+          log.debug("qrScanner.capture() callback", describeValue(value));
+          if (finished) return true;
+          if (typeof value !== "string" || !accept(value)) return false;
+          deliver(value);
+          return true;
+        },
+      })
+      .then(
+        (value) => {
+          settled = true;
+          log.debug("qrScanner.capture() resolved", describeValue(value));
+          if (value) deliver(value);
+          else finish({ status: "closed" });
+        },
+        (e) => {
+          settled = true;
+          fail(e);
+        },
+      );
+  } catch (e) {
+    fail(e);
+    return { result, cancel: () => {} };
+  }
+
+  if (!finished) onState?.({ status: "capturing" });
+
+  if (timeout !== undefined) {
+    timeoutId = window.setTimeout(() => {
+      if (finished) return;
+      log.info("Nothing captured in time, closing the scanner", { timeout });
+      finish({ status: "timed_out" });
+      closeScanner();
+    }, timeout);
+  }
+
+  return {
+    result,
+    cancel: () => {
+      if (finished) return;
+      finish({ status: "closed" });
+      closeScanner();
+    },
+  };
+}
@@ -0,0 +1,326 @@
+import { initData } from "@tma.js/sdk-react";
+
+import { logger } from "@/logging/logger";
+import { normalizePayload } from "@/scan/dedupe";
+import { uploadScan } from "@/scan/history";
+import type { QrPayload, QrPayloadType } from "@/scan/payload";
+import { supabase } from "@/supabaseClient";
+
+/**
+ * Offline scan queue. Every capture is first written to IndexedDB with an id generated on the
+ * device, then uploaded to the `scans` table. Failed uploads are retried with exponential
+ * backoff; the queue survives the Mini App being closed and is resumed on the next start.
+ */
+
+export type QueuedScanStatus = "pending" | "synced" | "failed";
+
+export interface QueuedScan {
+  clientId: string;
+  /**
+   * The profile signed in when the scan was recorded. Scans are only uploaded with that
+   * profile's session; null if nobody was signed in, and then never uploaded.
+   */
+  profileId: string | null;
+  payload: string;
+  /** See `normalizePayload`. */
+  dedupeKey: string;
+  payloadType: QrPayloadType;
+  telegramId: number | null;
+  scannedAt: string;
+  status: QueuedScanStatus;
+  /** Failed upload attempts so far. */
+  attempts: number;
+  /** Epoch milliseconds before which the scan is not retried. */
+  nextAttemptAt: number;
+  lastError: string | null;
+  syncedAt: string | null;
+}
+
+export type ScanQueueCounts = Record<QueuedScanStatus, number>;
+
+const DB_NAME = "scan-queue";
+const STORE = "scans";
+const BASE_DELAY = 5_000;
+const MAX_DELAY = 15 * 60_000;
+/** After this many transient failures a scan is marked failed and waits for a manual retry. */
+const MAX_ATTEMPTS = 10;
+/** Synced scans kept on the device, e.g. for the counts in the UI. */
+const SYNCED_KEPT = 200;
+
+const log = logger("supabase");
+const listeners = new Set<() => void>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let syncing: Promise<void> | null = null;
+let timerId: number | undefined;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result
+        .createObjectStore(STORE, { keyPath: "clientId" })
+        .createIndex("status", "status");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(request.error ?? new Error("Opening the scan queue failed."));
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(request.error ?? new Error("Scan queue request failed."));
+  });
+}
+
+async function store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  return (await openDb()).transaction(STORE, mode).objectStore(STORE);
+}
+
+async function put(scan: QueuedScan): Promise<void> {
+  await promisify((await store("readwrite")).put(scan));
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * @returns Queued scans, oldest first.
+ */
+export async function listQueuedScans(): Promise<QueuedScan[]> {
+  const scans = await promisify((await store("readonly")).getAll());
+  return (scans as QueuedScan[]).sort((a, b) =>
+    a.scannedAt.localeCompare(b.scannedAt),
+  );
+}
+
+export async function getQueueCounts(): Promise<ScanQueueCounts> {
+  const counts: ScanQueueCounts = { pending: 0, synced: 0, failed: 0 };
+  for (const scan of await listQueuedScans()) counts[scan.status]++;
+  return counts;
+}
+
+/**
+ * Calls the listener after every change of the queue.
+ * @returns A function removing the listener.
+ */
+export function subscribeToQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Records a capture on the device and starts uploading it.
+ */
+export async function enqueueScan(payload: QrPayload): Promise<QueuedScan> {
+  // Read from storage, so this works offline too.
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const scan: QueuedScan = {
+    clientId: crypto.randomUUID(),
+    profileId: session?.user.id ?? null,
+    payload: payload.raw,
+    dedupeKey: normalizePayload(payload),
+    payloadType: payload.type,
+    telegramId: initData.state()?.user?.id ?? null,
+    scannedAt: new Date().toISOString(),
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: 0,
+    lastError: null,
+    syncedAt: null,
+  };
+
+  await put(scan);
+  notify();
+  void syncQueue();
+  return scan;
+}
+
+/**
+ * PostgREST errors in these classes (integrity, data, permission) fail the same way on every
+ * retry, so the scan is marked failed right away.
+ */
+function isPermanentError(e: unknown): boolean {
+  const code =
+    typeof e === "object" && e !== null && "code" in e ? String(e.code) : "";
+  return /^(22|23|42)/.test(code);
+}
+
+function backoffDelay(attempts: number): number {
+  const delay = Math.min(BASE_DELAY * 2 ** (attempts - 1), MAX_DELAY);
+  // Jitter keeps devices that came back online together from retrying in lockstep.
+  return delay * (0.8 + Math.random() * 0.4);
+}
+
+async function pruneSynced(scans: QueuedScan[]): Promise<void> {
+  const synced = scans.filter((scan) => scan.status === "synced");
+  const excess = synced.slice(0, Math.max(0, synced.length - SYNCED_KEPT));
+  if (!excess.length) return;
+
+  const objectStore = await store("readwrite");
+  await Promise.all(
+    excess.map((scan) => promisify(objectStore.delete(scan.clientId))),
+  );
+}
+
+function schedule(scans: QueuedScan[]): void {
+  window.clearTimeout(timerId);
+  const next = Math.min(
+    ...scans
+      .filter((scan) => scan.status === "pending")
+      .map((scan) => scan.nextAttemptAt),
+  );
+  if (Number.isFinite(next)) {
+    timerId = window.setTimeout(
+      () => void syncQueue(),
+      Math.max(0, next - Date.now()),
+    );
+  }
+}
+
+/**
+ * Deletes queued scans recorded by another profile than the signed-in one, e.g. after an
+ * account switch, or without any profile: uploading them now would file them under the wrong
+ * account.
+ * @returns The remaining scans.
+ */
+async function dropOtherProfiles(
+  scans: QueuedScan[],
+  profileId: string,
+): Promise<QueuedScan[]> {
+  const other = scans.filter((scan) => scan.profileId !== profileId);
+  if (!other.length) return scans;
+
+  const objectStore = await store("readwrite");
+  await Promise.all(
+    other.map((scan) => promisify(objectStore.delete(scan.clientId))),
+  );
+  log.warn("Dropped scans queued by another profile", { count: other.length });
+  notify();
+  return scans.filter((scan) => !other.includes(scan));
+}
+
+async function runSync(): Promise<void> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  let queued = await listQueuedScans();
+  if (session) queued = await dropOtherProfiles(queued, session.user.id);
+
+  const due = queued.filter(
+    (scan) => scan.status === "pending" && scan.nextAttemptAt <= Date.now(),
+  );
+
+  for (const scan of due) {
+    if (!navigator.onLine) break;
+
+    try {
+      await uploadScan(scan);
+      await put({
+        ...scan,
+        status: "synced",
+        lastError: null,
+        syncedAt: new Date().toISOString(),
+      });
+      log.debug("Queued scan uploaded", { clientId: scan.clientId });
+    } catch (e) {
+      const attempts = scan.attempts + 1;
+      const permanent = isPermanentError(e) || attempts >= MAX_ATTEMPTS;
+      const message = e instanceof Error ? e.message : String(e);
+      await put({
+        ...scan,
+        status: permanent ? "failed" : "pending",
+        attempts,
+        nextAttemptAt: Date.now() + backoffDelay(attempts),
+        lastError: message,
+      });
+      log[permanent ? "error" : "warn"]("Uploading queued scan failed", {
+        clientId: scan.clientId,
+        attempts,
+        permanent,
+        error: e,
+      });
+    }
+    notify();
+  }
+
+  const scans = await listQueuedScans();
+  await pruneSynced(scans);
+  schedule(scans);
+}
+
+/**
+ * Uploads the pending scans that are due. Concurrent calls share one run.
+ */
+export function syncQueue(): Promise<void> {
+  syncing ??= runSync()
+    .catch((e) => log.error("Scan queue sync failed", { error: e }))
+    .finally(() => {
+      syncing = null;
+    });
+  return syncing;
+}
+
+/**
+ * Manual retry: moves failed scans back to pending, makes every pending scan due and uploads
+ * them right away.
+ */
+export async function retryQueuedScans(): Promise<void> {
+  for (const scan of await listQueuedScans()) {
+    if (scan.status === "failed") {
+      await put({ ...scan, status: "pending", attempts: 0, nextAttemptAt: 0 });
+    } else if (scan.status === "pending" && scan.nextAttemptAt > Date.now()) {
+      await put({ ...scan, nextAttemptAt: 0 });
+    }
+  }
+  notify();
+  await syncQueue();
+}
+
+/**
+ * Removes every queued scan, e.g. on sign-out, so the next user on the device starts with an
+ * empty queue. Scans recorded by another profile would be dropped at upload anyway.
+ */
+export async function clearScanQueue(): Promise<void> {
+  window.clearTimeout(timerId);
+  await syncing;
+  await promisify((await store("readwrite")).clear());
+  notify();
+}
+
+/**
+ * Resumes the queue and uploads whenever the connection comes back.
+ * @returns A function stopping the background sync.
+ */
+export function startScanQueue(): () => void {
+  // A returning connection makes every pending scan due right away.
+  const flush = async () => {
+    for (const scan of await listQueuedScans()) {
+      if (scan.status === "pending" && scan.nextAttemptAt > Date.now()) {
+        await put({ ...scan, nextAttemptAt: 0 });
+      }
+    }
+    await syncQueue();
+  };
+  const listener = () =>
+    void flush().catch((e) =>
+      log.error("Flushing the scan queue failed", { error: e }),
+    );
+
+  window.addEventListener("online", listener);
+  void syncQueue();
+
+  return () => {
+    window.removeEventListener("online", listener);
+    window.clearTimeout(timerId);
+  };
+}
@@ -0,0 +1,268 @@
+import { supabase } from "@/supabaseClient";
+import {
+  payloadLink,
+  type QrPayload,
+  type QrPayloadType,
+} from "@/scan/payload";
+
+export type ScanActionType =
+  | "open_link"
+  | "invoke_function"
+  | "copy"
+  | "navigate"
+  | "show";
+
+export type ScanAction =
+  /** Opens the payload's link. TON transfers open the payment confirmation. */
+  | { type: "open_link" }
+  /** Invokes the named Supabase edge function with the payload. */
+  | { type: "invoke_function"; functionName: string }
+  /** Copies the raw payload to the clipboard. */
+  | { type: "copy" }
+  /**
+   * Navigates to an internal route. `{raw}` and `{type}` in the route are replaced with the
+   * URL-encoded payload and payload type.
+   */
+  | { type: "navigate"; route: string }
+  /** Shows the payload in the result view. */
+  | { type: "show" };
+
+export interface ScanRule {
+  /** The `scan_rules.id`, or null for built-in rules. */
+  id: string | null;
+  name: string;
+  /** Payload types the rule applies to; null matches any type. */
+  types: QrPayloadType[] | null;
+  /** Tested against the raw payload; null matches anything. */
+  pattern: RegExp | null;
+  /** Link hosts the rule applies to, including subdomains; null matches any payload. */
+  hosts: string[] | null;
+  action: ScanAction;
+}
+
+/**
+ * A row of the `scan_rules` table.
+ */
+interface ScanRuleRow {
+  id: string;
+  position: number;
+  name: string;
+  enabled: boolean;
+  payload_types: string[] | null;
+  pattern: string | null;
+  hosts: string[] | null;
+  action: ScanActionType;
+  target: string | null;
+}
+
+export interface LoadedScanRules {
+  rules: ScanRule[];
+  source: "remote" | "default";
+  /** Rows that were skipped because they are invalid, with the reason. */
+  errors: string[];
+}
+
+/**
+ * Used when the `scan_rules` table is empty or unavailable: opens links (and TON transfers)
+ * and shows everything else.
+ */
+export const DEFAULT_SCAN_RULES: ScanRule[] = [
+  {
+    id: null,
+    name: "Open links",
+    types: ["url", "telegram", "ton"],
+    pattern: null,
+    hosts: null,
+    action: { type: "open_link" },
+  },
+  {
+    id: null,
+    name: "Show everything else",
+    types: null,
+    pattern: null,
+    hosts: null,
+    action: { type: "show" },
+  },
+];
+
+/**
+ * @throws If the row does not describe a valid rule.
+ */
+function fromRow(row: ScanRuleRow): ScanRule {
+  let action: ScanAction;
+  switch (row.action) {
+    case "invoke_function":
+    case "navigate":
+      if (!row.target) {
+        throw new Error(`action ${row.action} needs a target`);
+      }
+      action =
+        row.action === "navigate"
+          ? { type: "navigate", route: row.target }
+          : { type: "invoke_function", functionName: row.target };
+      break;
+    case "open_link":
+    case "copy":
+    case "show":
+      action = { type: row.action };
+      break;
+    default:
+      throw new Error(`unknown action ${JSON.stringify(row.action)}`);
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    types: row.payload_types?.length
+      ? (row.payload_types as QrPayloadType[])
+      : null,
+    // Throws a SyntaxError for invalid patterns.
+    pattern: row.pattern ? new RegExp(row.pattern) : null,
+    hosts: row.hosts?.length ? row.hosts.map((host) => host.toLowerCase()) : null,
+    action,
+  };
+}
+
+/**
+ * Loads the enabled rules from the `scan_rules` table, falling back to
+ * {@link DEFAULT_SCAN_RULES} if the table can't be read or has no usable rules.
+ */
+export async function loadScanRules(): Promise<LoadedScanRules> {
+  const { data, error } = await supabase
+    .from("scan_rules")
+    .select("*")
+    .eq("enabled", true)
+    .order("position", { ascending: true })
+    .returns<ScanRuleRow[]>();
+
+  if (error) {
+    return {
+      rules: DEFAULT_SCAN_RULES,
+      source: "default",
+      errors: [`scan_rules: ${error.message}`],
+    };
+  }
+
+  const rules: ScanRule[] = [];
+  const errors: string[] = [];
+  for (const row of data) {
+    try {
+      rules.push(fromRow(row));
+    } catch (e) {
+      errors.push(
+        `Rule ${JSON.stringify(row.name)}: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+  }
+
+  return rules.length
+    ? { rules, source: "remote", errors }
+    : { rules: DEFAULT_SCAN_RULES, source: "default", errors };
+}
+
+function payloadHost(payload: QrPayload): string | null {
+  if (payload.type === "url") return payload.host.toLowerCase();
+  const link = payloadLink(payload);
+  if (!link) return null;
+  try {
+    return new URL(link).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+export function ruleMatches(rule: ScanRule, payload: QrPayload): boolean {
+  if (rule.types && !rule.types.includes(payload.type)) return false;
+  if (rule.pattern && !rule.pattern.test(payload.raw)) return false;
+  if (rule.hosts) {
+    const host = payloadHost(payload);
+    if (
+      !host ||
+      !rule.hosts.some((h) => host === h || host.endsWith(`.${h}`))
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * @returns The first rule matching the payload, or null if none does.
+ */
+export function selectRule(
+  rules: ScanRule[],
+  payload: QrPayload,
+): ScanRule | null {
+  return rules.find((rule) => ruleMatches(rule, payload)) ?? null;
+}
+
+/**
+ * Fills the `{raw}` and `{type}` placeholders of a navigate action route.
+ */
+export function resolveRoute(route: string, payload: QrPayload): string {
+  return route
+    .replace(/\{raw\}/g, encodeURIComponent(payload.raw))
+    .replace(/\{type\}/g, encodeURIComponent(payload.type));
+}
+
+/**
+ * Invokes an edge function on behalf of the signed-in user with the scanned payload.
+ * @returns The function's response body, or null if it has none.
+ * @throws If there is no Supabase session or the function fails.
+ */
+export async function invokeScanFunction(
+  functionName: string,
+  payload: QrPayload,
+  rule: ScanRule,
+): Promise<unknown> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error(`Cannot invoke ${functionName}: no Supabase session.`);
+  }
+
+  const response = await supabase.functions.invoke<unknown>(
+    functionName,
+    {
+      body: { payload, rule: { id: rule.id, name: rule.name } },
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    },
+  );
+
+  // supabase-js types the error as any; when set, it is a FunctionsError.
+  if (response.error) throw response.error as Error;
+  // Functions without a response body resolve with null.
+  return response.data ?? null;
+}
+
+/**
+ * Appends an entry to the `scan_action_log` table.
+ * @throws If there is no Supabase session or the insert fails.
+ */
+export async function logScanAction(
+  rule: ScanRule,
+  payload: QrPayload,
+  outcome: { status: "ok" } | { status: "failed"; error: string },
+): Promise<void> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error("Cannot log scan action: no Supabase session.");
+  }
+
+  const { error } = await supabase.from("scan_action_log").insert({
+    profile_id: session.user.id,
+    rule_id: rule.id,
+    rule_name: rule.name,
+    action: rule.action.type,
+    payload_type: payload.type,
+    status: outcome.status,
+    error: outcome.status === "failed" ? outcome.error : null,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import {
+  startQrCapture,
+  type QrCaptureEnd,
+  type QrCaptureOptions,
+  type QrCaptureSession,
+  type QrCaptureState,
+} from "@/scan/qrCapture";
+
+export interface UseQrCaptureOptions extends Omit<QrCaptureOptions, "onState"> {
+  /** Called exactly once per captured code. */
+  onResult?: (value: string) => void;
+}
+
+export interface UseQrCapture {
+  state: QrCaptureState;
+  /**
+   * Opens the scanner, ending any session still in progress. Per-call options override the
+   * hook's options.
+   * @returns The state the session ended in.
+   */
+  open: (
+    options?: Omit<QrCaptureOptions, "onState">,
+  ) => Promise<QrCaptureEnd>;
+  /** Ends the current session and closes the scanner. */
+  cancel: () => void;
+  /** Returns a finished session to `idle`. */
+  reset: () => void;
+}
+
+/**
+ * React binding for {@link startQrCapture}. Only the latest session updates the state, and the
+ * session is cancelled when the component unmounts.
+ */
+export function useQrCapture(options: UseQrCaptureOptions = {}): UseQrCapture {
+  const [state, setState] = useState<QrCaptureState>({ status: "idle" });
+  const sessionRef = useRef<QrCaptureSession | null>(null);
+  const sessionIdRef = useRef(0);
+
+  // Read at call time, so callers don't need to memoize their options.
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const cancel = useCallback(() => {
+    sessionRef.current?.cancel();
+  }, []);
+
+  const open = useCallback(
+    (overrides?: Omit<QrCaptureOptions, "onState">) => {
+      sessionRef.current?.cancel();
+
+      const { onResult, ...defaults } = optionsRef.current;
+      const id = ++sessionIdRef.current;
+      const session = startQrCapture({
+        ...defaults,
+        ...overrides,
+        onState: (next) => {
+          if (id === sessionIdRef.current) setState(next);
+        },
+      });
+      sessionRef.current = session;
+
+      return session.result.then((end) => {
+        if (end.status === "result") onResult?.(end.value);
+        return end;
+      });
+    },
+    [],
+  );
+
+  const reset = useCallback(() => {
+    sessionRef.current?.cancel();
+    sessionIdRef.current++;
+    setState({ status: "idle" });
+  }, []);
+
+  useEffect(
+    () => () => {
+      // Stop state updates after unmount.
+      sessionIdRef.current++;
+      sessionRef.current?.cancel();
+    },
+    [],
+  );
+
+  return useMemo(
+    () => ({ state, open, cancel, reset }),
+    [state, open, cancel, reset],
+  );
+}
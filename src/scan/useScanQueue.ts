@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+
+import {
+  getQueueCounts,
+  subscribeToQueue,
+  type ScanQueueCounts,
+} from "@/scan/queue";
+
+/**
+ * @returns The offline queue's pending, synced and failed counts, or null while loading.
+ */
+export function useScanQueueCounts(): ScanQueueCounts | null {
+  const [counts, setCounts] = useState<ScanQueueCounts | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    const refresh = () => {
+      getQueueCounts().then(
+        (next) => active && setCounts(next),
+        () => active && setCounts(null),
+      );
+    };
+
+    refresh();
+    const unsubscribe = subscribeToQueue(refresh);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return counts;
+}
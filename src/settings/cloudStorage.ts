@@ -0,0 +1,103 @@
+import { cloudStorage } from "@tma.js/sdk-react";
+
+/**
+ * String values in Telegram CloudStorage. Values longer than one CloudStorage item are split
+ * into chunk items, and the key itself holds a manifest pointing to them.
+ *
+ * Chunks are written under a new revision before the manifest is switched to it, so a reader
+ * on another device sees either the old or the new value, never a mix. Chunks of the previous
+ * revision are deleted afterwards.
+ */
+
+/** CloudStorage allows up to 4096 characters per value. */
+export const CLOUD_VALUE_LIMIT = 4096;
+
+const MANIFEST_PREFIX = "@chunks:";
+
+interface Manifest {
+  revision: string;
+  count: number;
+}
+
+function chunkKey(key: string, revision: string, index: number): string {
+  return `${key}__${revision}_${index}`;
+}
+
+function chunkKeys(key: string, { revision, count }: Manifest): string[] {
+  return Array.from({ length: count }, (_, i) => chunkKey(key, revision, i));
+}
+
+function parseManifest(value: string): Manifest | null {
+  if (!value.startsWith(MANIFEST_PREFIX)) return null;
+  const [revision, count] = value.slice(MANIFEST_PREFIX.length).split(":");
+  const n = Number(count);
+  return revision && Number.isInteger(n) && n > 0
+    ? { revision, count: n }
+    : null;
+}
+
+/**
+ * CloudStorage needs Mini Apps 6.9 and a Telegram client.
+ */
+export function isCloudStorageAvailable(): boolean {
+  return cloudStorage.setItem.isAvailable();
+}
+
+/**
+ * @returns The value, or null when the key is not set.
+ * @throws If CloudStorage is not available, or a chunk is missing.
+ */
+export async function readCloudValue(key: string): Promise<string | null> {
+  // Missing keys are returned as an empty string.
+  const value = await cloudStorage.getItem(key);
+  if (!value) return null;
+
+  const manifest = parseManifest(value);
+  if (!manifest) return value;
+
+  const keys = chunkKeys(key, manifest);
+  const chunks = await cloudStorage.getItems(keys);
+  return keys
+    .map((chunk) => {
+      if (!chunks[chunk]) {
+        throw new Error(`CloudStorage chunk "${chunk}" is missing.`);
+      }
+      return chunks[chunk];
+    })
+    .join("");
+}
+
+/**
+ * Writes the value, chunked when it doesn't fit into one item.
+ * @throws If CloudStorage is not available or rejects a write.
+ */
+export async function writeCloudValue(key: string, value: string): Promise<void> {
+  const previous = parseManifest(await cloudStorage.getItem(key));
+  let written: string[] = [];
+
+  // Values that look like a manifest are always chunked, so they can't be mistaken for one.
+  if (value.length <= CLOUD_VALUE_LIMIT && !value.startsWith(MANIFEST_PREFIX)) {
+    await cloudStorage.setItem(key, value);
+  } else {
+    const manifest: Manifest = {
+      revision: Date.now().toString(36),
+      count: Math.ceil(value.length / CLOUD_VALUE_LIMIT),
+    };
+    written = chunkKeys(key, manifest);
+    for (const [i, chunk] of written.entries()) {
+      await cloudStorage.setItem(
+        chunk,
+        value.slice(i * CLOUD_VALUE_LIMIT, (i + 1) * CLOUD_VALUE_LIMIT),
+      );
+    }
+    await cloudStorage.setItem(
+      key,
+      `${MANIFEST_PREFIX}${manifest.revision}:${manifest.count}`,
+    );
+  }
+
+  if (previous) {
+    const stale = chunkKeys(key, previous).filter((k) => !written.includes(k));
+    if (stale.length) await cloudStorage.deleteItem(stale);
+  }
+}
@@ -0,0 +1,458 @@
+import { initData } from "@tma.js/sdk-react";
+
+import { logger } from "@/logging/logger";
+import type { QrPayloadType } from "@/scan/payload";
+import {
+  isCloudStorageAvailable,
+  readCloudValue,
+  writeCloudValue,
+} from "@/settings/cloudStorage";
+
+/**
+ * Typed user settings synced through Telegram CloudStorage, so they follow the user between
+ * their Telegram clients. Every change is applied in memory and cached in localStorage right
+ * away, then pushed to CloudStorage. Where CloudStorage is not supported (old clients, outside
+ * Telegram) localStorage is the only store.
+ *
+ * Open sessions pick up each other's changes when they become visible and while visible every
+ * {@link PULL_INTERVAL} ms. Settings are last-write-wins; recent scans are merged.
+ */
+
+export interface ScannerPrefs {
+  /** Text shown in the native scanner. Empty uses the client's default. */
+  prompt: string;
+  /** The scanner starts in batch mode. */
+  batchByDefault: boolean;
+  /** Links to allowlisted domains open without a confirmation. */
+  autoOpenTrustedLinks: boolean;
+  /** Haptic feedback when a code was scanned. */
+  hapticsOnSuccess: boolean;
+  /** The same code scanned again within this many seconds asks before it is recorded. 0 is off. */
+  dedupeWindowSeconds: number;
+  /** Duplicate detection also looks at the server history. */
+  dedupeServerCheck: boolean;
+}
+
+export interface RecentScan {
+  /** The offline queue's client id. */
+  id: string;
+  raw: string;
+  type: QrPayloadType;
+  scannedAt: string;
+}
+
+export interface Settings {
+  scanner: ScannerPrefs;
+  /** Shows the debug log panel under the scanner. */
+  showDebugPanel: boolean;
+  /** Scans older than this many days are deleted from the history. 0 keeps them forever. */
+  historyRetentionDays: number;
+  /** Newest first, at most {@link RECENT_SCANS_LIMIT}. */
+  recentScans: RecentScan[];
+}
+
+/** The stored document. */
+interface SettingsDocument {
+  version: number;
+  /** Epoch milliseconds of the last change. */
+  updatedAt: number;
+  /** Epoch milliseconds of the last "clear recent scans"; older scans are not merged back. */
+  recentClearedAt: number;
+  settings: Settings;
+}
+
+export const RECENT_SCANS_LIMIT = 20;
+
+export const SCHEMA_VERSION = 1;
+
+type Migration = (settings: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Upgrades a stored document's settings from version `n` to `n + 1`. Add an entry whenever
+ * {@link Settings} changes incompatibly and bump {@link SCHEMA_VERSION}.
+ */
+const MIGRATIONS: Record<number, Migration> = {};
+
+export const DEFAULT_SETTINGS: Settings = {
+  scanner: {
+    prompt: "",
+    batchByDefault: false,
+    autoOpenTrustedLinks: true,
+    hapticsOnSuccess: true,
+    dedupeWindowSeconds: 300,
+    dedupeServerCheck: false,
+  },
+  showDebugPanel: true,
+  historyRetentionDays: 0,
+  recentScans: [],
+};
+
+const CLOUD_KEY = "settings";
+const PULL_INTERVAL = 60_000;
+const PUSH_DELAY = 500;
+
+const log = logger("app");
+const listeners = new Set<() => void>();
+
+let current: SettingsDocument | null = null;
+// The cache key `current` was loaded for, so another account's settings are never served.
+let currentKey: string | null = null;
+let pushTimer: number | undefined;
+let pushing: Promise<void> | null = null;
+
+function cacheKey(): string {
+  // Another Telegram account on the same device has its own settings.
+  return `settings:${initData.state()?.user?.id ?? "anonymous"}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function sanitizeRecentScan(value: unknown): RecentScan | null {
+  if (!isObject(value)) return null;
+  const { id, raw, type, scannedAt } = value;
+  return typeof id === "string" &&
+    typeof raw === "string" &&
+    typeof type === "string" &&
+    typeof scannedAt === "string"
+    ? { id, raw, type: type as QrPayloadType, scannedAt }
+    : null;
+}
+
+/**
+ * Keeps the valid fields of stored settings and fills in defaults for the rest, so a
+ * hand-edited or partially written value never breaks the app.
+ */
+function sanitize(value: Record<string, unknown>): Settings {
+  const scanner = isObject(value.scanner) ? value.scanner : {};
+  const defaults = DEFAULT_SETTINGS.scanner;
+  const flag = (flagValue: unknown, fallback: boolean) =>
+    typeof flagValue === "boolean" ? flagValue : fallback;
+  const count = (countValue: unknown, fallback: number) =>
+    Number.isInteger(countValue) && Number(countValue) >= 0
+      ? Number(countValue)
+      : fallback;
+
+  return {
+    scanner: {
+      prompt:
+        typeof scanner.prompt === "string" ? scanner.prompt : defaults.prompt,
+      batchByDefault: flag(scanner.batchByDefault, defaults.batchByDefault),
+      autoOpenTrustedLinks: flag(
+        scanner.autoOpenTrustedLinks,
+        defaults.autoOpenTrustedLinks,
+      ),
+      hapticsOnSuccess: flag(
+        scanner.hapticsOnSuccess,
+        defaults.hapticsOnSuccess,
+      ),
+      dedupeWindowSeconds: count(
+        scanner.dedupeWindowSeconds,
+        defaults.dedupeWindowSeconds,
+      ),
+      dedupeServerCheck: flag(
+        scanner.dedupeServerCheck,
+        defaults.dedupeServerCheck,
+      ),
+    },
+    showDebugPanel: flag(value.showDebugPanel, DEFAULT_SETTINGS.showDebugPanel),
+    historyRetentionDays: count(
+      value.historyRetentionDays,
+      DEFAULT_SETTINGS.historyRetentionDays,
+    ),
+    recentScans: Array.isArray(value.recentScans)
+      ? value.recentScans
+          .map(sanitizeRecentScan)
+          .filter((scan): scan is RecentScan => scan !== null)
+          .slice(0, RECENT_SCANS_LIMIT)
+      : [],
+  };
+}
+
+/**
+ * Parses and migrates a stored document.
+ * @returns Null when the value is not a settings document.
+ */
+function parseDocument(json: string | null): SettingsDocument | null {
+  if (!json) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!isObject(value) || !isObject(value.settings)) return null;
+
+  let version = typeof value.version === "number" ? value.version : 1;
+  let settings = value.settings;
+  if (version > SCHEMA_VERSION) {
+    // Written by a newer build on another device. Known fields are kept.
+    log.warn("Settings were written by a newer schema", {
+      version,
+      supported: SCHEMA_VERSION,
+    });
+  }
+  for (; version < SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) settings = migrate(settings);
+  }
+
+  return {
+    version: SCHEMA_VERSION,
+    updatedAt: typeof value.updatedAt === "number" ? value.updatedAt : 0,
+    recentClearedAt:
+      typeof value.recentClearedAt === "number" ? value.recentClearedAt : 0,
+    settings: sanitize(settings),
+  };
+}
+
+function emptyDocument(): SettingsDocument {
+  return {
+    version: SCHEMA_VERSION,
+    updatedAt: 0,
+    recentClearedAt: 0,
+    settings: DEFAULT_SETTINGS,
+  };
+}
+
+function load(): SettingsDocument {
+  const key = cacheKey();
+  if (current && currentKey === key) return current;
+  currentKey = key;
+  current = null;
+  try {
+    current = parseDocument(localStorage.getItem(key));
+  } catch {
+    // localStorage unavailable.
+  }
+  current ??= emptyDocument();
+  return current;
+}
+
+/**
+ * Replaces the document in memory and in the local cache.
+ */
+function apply(doc: SettingsDocument): void {
+  current = doc;
+  currentKey = cacheKey();
+  try {
+    localStorage.setItem(currentKey, JSON.stringify(doc));
+  } catch {
+    // Storage full or unavailable: the settings stay in memory.
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Merges two documents: the newer settings win, recent scans of both are kept.
+ */
+function merge(a: SettingsDocument, b: SettingsDocument): SettingsDocument {
+  const [older, newer] = a.updatedAt <= b.updatedAt ? [a, b] : [b, a];
+  const recentClearedAt = Math.max(a.recentClearedAt, b.recentClearedAt);
+
+  const byId = new Map<string, RecentScan>();
+  const scans = [...newer.settings.recentScans, ...older.settings.recentScans];
+  for (const scan of scans) {
+    if (!byId.has(scan.id) && Date.parse(scan.scannedAt) > recentClearedAt) {
+      byId.set(scan.id, scan);
+    }
+  }
+  const recentScans = [...byId.values()]
+    .sort((x, y) => y.scannedAt.localeCompare(x.scannedAt))
+    .slice(0, RECENT_SCANS_LIMIT);
+
+  return {
+    ...newer,
+    recentClearedAt,
+    settings: { ...newer.settings, recentScans },
+  };
+}
+
+async function push(): Promise<void> {
+  if (!isCloudStorageAvailable()) return;
+  try {
+    await writeCloudValue(CLOUD_KEY, JSON.stringify(load()));
+    log.debug("Settings pushed to CloudStorage");
+  } catch (e) {
+    log.warn("Writing settings to CloudStorage failed", { error: e });
+  }
+}
+
+function pushNow(): void {
+  window.clearTimeout(pushTimer);
+  pushTimer = undefined;
+  // Writes never overlap; a change made while pushing is pushed again afterwards.
+  const run = (pushing ?? Promise.resolve()).then(push);
+  pushing = run;
+  void run.finally(() => {
+    if (pushing === run) pushing = null;
+  });
+}
+
+function schedulePush(): void {
+  window.clearTimeout(pushTimer);
+  pushTimer = window.setTimeout(pushNow, PUSH_DELAY);
+}
+
+// A change made just before the page is closed would otherwise not reach CloudStorage.
+window.addEventListener("pagehide", () => {
+  if (pushTimer !== undefined) pushNow();
+});
+
+/**
+ * @returns The current settings. The object is replaced on every change, so it can be used as a
+ * snapshot.
+ */
+export function getSettings(): Settings {
+  return load().settings;
+}
+
+/**
+ * Drops the settings held in memory, e.g. on sign-out, so they are loaded again for whoever
+ * uses the app next. A pending change is pushed first; the local cache is kept.
+ */
+export function resetSettingsCache(): void {
+  if (pushTimer !== undefined) pushNow();
+  current = null;
+  currentKey = null;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Calls the listener after every change of the settings, local or pulled from another session.
+ * @returns A function removing the listener.
+ */
+export function subscribeToSettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function change(
+  update: (doc: SettingsDocument) => Partial<SettingsDocument>,
+): void {
+  const doc = load();
+  apply({
+    ...doc,
+    ...update(doc),
+    // Stays ahead of the previous change even if the clock went back.
+    updatedAt: Math.max(Date.now(), doc.updatedAt + 1),
+  });
+  schedulePush();
+}
+
+/**
+ * Changes top-level settings. Scanner preferences and recent scans have their own functions.
+ */
+export function updateSettings(
+  patch: Partial<Omit<Settings, "scanner" | "recentScans">>,
+): void {
+  change(({ settings }) => ({ settings: { ...settings, ...patch } }));
+}
+
+export function updateScannerPrefs(prefs: Partial<ScannerPrefs>): void {
+  change(({ settings }) => ({
+    settings: { ...settings, scanner: { ...settings.scanner, ...prefs } },
+  }));
+}
+
+export function addRecentScan(scan: RecentScan): void {
+  change(({ settings }) => ({
+    settings: {
+      ...settings,
+      recentScans: [
+        scan,
+        ...settings.recentScans.filter((s) => s.id !== scan.id),
+      ].slice(0, RECENT_SCANS_LIMIT),
+    },
+  }));
+}
+
+/**
+ * Removes recent scans made before the given time, e.g. when they fall out of the history
+ * retention.
+ */
+export function pruneRecentScans(before: Date): void {
+  const { recentScans } = load().settings;
+  const kept = recentScans.filter(
+    (scan) => Date.parse(scan.scannedAt) >= before.getTime(),
+  );
+  if (kept.length === recentScans.length) return;
+  change(({ settings }) => ({ settings: { ...settings, recentScans: kept } }));
+}
+
+export function clearRecentScans(): void {
+  change(({ settings }) => ({
+    recentClearedAt: Date.now(),
+    settings: { ...settings, recentScans: [] },
+  }));
+}
+
+/**
+ * Reads the settings from CloudStorage and merges them with the local ones. Pushes the result
+ * back when this session had changes the stored value doesn't.
+ */
+export async function pullSettings(): Promise<void> {
+  if (!isCloudStorageAvailable()) return;
+
+  let remote: SettingsDocument | null;
+  try {
+    remote = parseDocument(await readCloudValue(CLOUD_KEY));
+  } catch (e) {
+    log.warn("Reading settings from CloudStorage failed", { error: e });
+    return;
+  }
+
+  const local = load();
+  const merged = remote ? merge(local, remote) : local;
+  if (JSON.stringify(merged) !== JSON.stringify(local)) {
+    log.debug("Settings updated from CloudStorage", {
+      updatedAt: merged.updatedAt,
+    });
+    apply(merged);
+  }
+  if (!remote || JSON.stringify(merged) !== JSON.stringify(remote)) {
+    schedulePush();
+  }
+}
+
+/**
+ * Pulls the settings now, whenever the Mini App becomes visible and periodically while it is.
+ * Without CloudStorage, other tabs' changes are picked up from localStorage.
+ * @returns A function stopping the sync.
+ */
+export function startSettingsSync(): () => void {
+  const cloud = isCloudStorageAvailable();
+  log.info("Settings sync started", {
+    store: cloud ? "cloudStorage" : "localStorage",
+  });
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === "visible") void pullSettings();
+  };
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== cacheKey()) return;
+    const doc = parseDocument(event.newValue);
+    if (doc) {
+      current = doc;
+      currentKey = event.key;
+      listeners.forEach((listener) => listener());
+    }
+  };
+  const intervalId = cloud
+    ? window.setInterval(() => {
+        if (document.visibilityState === "visible") void pullSettings();
+      }, PULL_INTERVAL)
+    : undefined;
+
+  document.addEventListener("visibilitychange", onVisibilityChange);
+  window.addEventListener("storage", onStorage);
+  void pullSettings();
+
+  return () => {
+    window.clearInterval(intervalId);
+    document.removeEventListener("visibilitychange", onVisibilityChange);
+    window.removeEventListener("storage", onStorage);
+  };
+}
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from "react";
+
+import {
+  getSettings,
+  subscribeToSettings,
+  type Settings,
+} from "@/settings/store";
+
+/**
+ * @returns The current settings. Re-renders on every change, including changes pulled from
+ * another session.
+ */
+export function useSettings(): Settings {
+  return useSyncExternalStore(subscribeToSettings, getSettings);
+}
@@ -0,0 +1,79 @@
+/**
+ * A TON smart contract address reduced to what is needed to serialize it in a message.
+ */
+export interface TonAddress {
+  workchain: number;
+  hash: Uint8Array;
+  /** Set for user-friendly addresses; raw addresses are considered bounceable. */
+  bounceable: boolean;
+  testOnly: boolean;
+}
+
+/**
+ * CRC16-XMODEM, the checksum of user-friendly addresses.
+ */
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+}
+
+/**
+ * Parses a raw ("0:<hex>") or user-friendly (48 base64/base64url characters) address.
+ * @returns Null if the address is malformed or its checksum does not match.
+ */
+export function parseTonAddress(value: string): TonAddress | null {
+  const raw = /^(-?\d+):([0-9a-fA-F]{64})$/.exec(value.trim());
+  if (raw) {
+    return {
+      workchain: Number(raw[1]),
+      hash: hexToBytes(raw[2]),
+      bounceable: true,
+      testOnly: false,
+    };
+  }
+
+  if (!/^[A-Za-z0-9+/_-]{48}$/.test(value.trim())) return null;
+
+  let bytes: Uint8Array;
+  try {
+    const binary = atob(value.trim().replace(/-/g, "+").replace(/_/g, "/"));
+    bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+  if (bytes.length !== 36) return null;
+
+  const checksum = (bytes[34] << 8) | bytes[35];
+  if (crc16(bytes.subarray(0, 34)) !== checksum) return null;
+
+  const flags = bytes[0];
+  const tag = flags & 0x7f;
+  if (tag !== 0x11 && tag !== 0x51) return null;
+
+  return {
+    workchain: bytes[1] === 0xff ? -1 : bytes[1],
+    hash: bytes.slice(2, 34),
+    bounceable: tag === 0x11,
+    testOnly: (flags & 0x80) !== 0,
+  };
+}
+
+/**
+ * @returns The address in the raw "<workchain>:<hex>" form.
+ */
+export function toRawAddress(address: TonAddress): string {
+  const hex = Array.from(address.hash, (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+  return `${address.workchain}:${hex}`;
+}
@@ -0,0 +1,202 @@
+import type { TonAddress } from "@/ton/address";
+
+/**
+ * Minimal TON cell implementation, just enough to build message payloads (comments, jetton
+ * transfers) and serialize them to a bag of cells for TON Connect.
+ * @see https://docs.ton.org/develop/data-formats/cell-boc
+ */
+export interface Cell {
+  bits: number[];
+  refs: Cell[];
+}
+
+const MAX_BITS = 1023;
+const MAX_REFS = 4;
+
+export class CellBuilder {
+  private readonly bits: number[] = [];
+  private readonly refs: Cell[] = [];
+
+  get availableBits(): number {
+    return MAX_BITS - this.bits.length;
+  }
+
+  storeBit(bit: boolean | number): this {
+    if (this.bits.length >= MAX_BITS) {
+      throw new Error("Cell overflow: more than 1023 bits.");
+    }
+    this.bits.push(bit ? 1 : 0);
+    return this;
+  }
+
+  storeUint(value: bigint | number, bitLength: number): this {
+    const v = BigInt(value);
+    if (v < 0n || v >= 1n << BigInt(bitLength)) {
+      throw new Error(`Value ${v} does not fit into ${bitLength} bits.`);
+    }
+    for (let i = bitLength - 1; i >= 0; i--) {
+      this.storeBit(Number((v >> BigInt(i)) & 1n));
+    }
+    return this;
+  }
+
+  storeInt(value: bigint | number, bitLength: number): this {
+    const v = BigInt(value);
+    const limit = 1n << BigInt(bitLength - 1);
+    if (v < -limit || v >= limit) {
+      throw new Error(`Value ${v} does not fit into ${bitLength} bits.`);
+    }
+    return this.storeUint(v < 0n ? (1n << BigInt(bitLength)) + v : v, bitLength);
+  }
+
+  storeBytes(bytes: Uint8Array): this {
+    bytes.forEach((byte) => this.storeUint(byte, 8));
+    return this;
+  }
+
+  /**
+   * Stores a `VarUInteger 16` (Coins) value.
+   */
+  storeCoins(amount: bigint): this {
+    if (amount === 0n) {
+      return this.storeUint(0, 4);
+    }
+    const byteLength = Math.ceil(amount.toString(16).length / 2);
+    return this.storeUint(byteLength, 4).storeUint(amount, byteLength * 8);
+  }
+
+  /**
+   * Stores `addr_std` or `addr_none` when `address` is null.
+   */
+  storeAddress(address: TonAddress | null): this {
+    if (!address) {
+      return this.storeUint(0, 2);
+    }
+    return this.storeUint(0b10, 2)
+      .storeBit(0)
+      .storeInt(address.workchain, 8)
+      .storeBytes(address.hash);
+  }
+
+  storeRef(cell: Cell): this {
+    if (this.refs.length >= MAX_REFS) {
+      throw new Error("Cell overflow: more than 4 references.");
+    }
+    this.refs.push(cell);
+    return this;
+  }
+
+  /**
+   * Stores a UTF-8 string in the "snake" format: as many bytes as fit into this cell, the rest
+   * in a chain of referenced cells.
+   */
+  storeStringTail(value: string): this {
+    return this.storeBytesTail(new TextEncoder().encode(value));
+  }
+
+  /**
+   * @see storeStringTail
+   */
+  storeBytesTail(bytes: Uint8Array): this {
+    // Splitting a multi-byte character across cells is allowed by the format.
+    const head = Math.min(bytes.length, Math.floor(this.availableBits / 8));
+    this.storeBytes(bytes.subarray(0, head));
+    if (head < bytes.length) {
+      this.storeRef(
+        new CellBuilder().storeBytesTail(bytes.subarray(head)).endCell(),
+      );
+    }
+    return this;
+  }
+
+  endCell(): Cell {
+    return { bits: [...this.bits], refs: [...this.refs] };
+  }
+}
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * CRC-32C (Castagnoli), used as the bag of cells checksum.
+ */
+function crc32c(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let c = i;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0x82f63b78 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[i] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function cellData(cell: Cell): number[] {
+  const bits = [...cell.bits];
+  // Incomplete bytes are padded with a single 1 bit followed by zeros (completion tag).
+  if (bits.length % 8) {
+    bits.push(1);
+    while (bits.length % 8) bits.push(0);
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    bytes.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  return bytes;
+}
+
+function writeUint(target: number[], value: number, byteLength: number): void {
+  for (let i = byteLength - 1; i >= 0; i--) {
+    target.push((value >>> (i * 8)) & 0xff);
+  }
+}
+
+/**
+ * Serializes a cell tree to a single-root bag of cells with a CRC32-C checksum.
+ * @returns Base64 encoded BOC, as expected by TON Connect.
+ */
+export function serializeBoc(root: Cell): string {
+  // Pre-order traversal guarantees that a parent always precedes its children.
+  const cells: Cell[] = [];
+  const visit = (cell: Cell) => {
+    cells.push(cell);
+    cell.refs.forEach(visit);
+  };
+  visit(root);
+
+  const sizeBytes = Math.max(1, Math.ceil(Math.log2(cells.length + 1) / 8));
+
+  const serialized: number[] = [];
+  cells.forEach((cell) => {
+    const data = cellData(cell);
+    serialized.push(
+      cell.refs.length,
+      Math.ceil(cell.bits.length / 8) + Math.floor(cell.bits.length / 8),
+      ...data,
+    );
+    cell.refs.forEach((ref) => writeUint(serialized, cells.indexOf(ref), sizeBytes));
+  });
+
+  const offsetBytes = Math.max(1, Math.ceil(Math.log2(serialized.length + 1) / 8));
+
+  const out: number[] = [0xb5, 0xee, 0x9c, 0x72];
+  // has_idx = 0, has_crc32c = 1, has_cache_bits = 0, flags = 0, size = sizeBytes.
+  out.push(0x40 | sizeBytes, offsetBytes);
+  writeUint(out, cells.length, sizeBytes);
+  writeUint(out, 1, sizeBytes); // roots
+  writeUint(out, 0, sizeBytes); // absent
+  writeUint(out, serialized.length, offsetBytes);
+  writeUint(out, 0, sizeBytes); // root index
+  out.push(...serialized);
+
+  const crc = crc32c(Uint8Array.from(out));
+  out.push(crc & 0xff, (crc >>> 8) & 0xff, (crc >>> 16) & 0xff, (crc >>> 24) & 0xff);
+
+  return btoa(String.fromCharCode(...out));
+}
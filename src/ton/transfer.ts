@@ -0,0 +1,211 @@
+import { CHAIN, type SendTransactionRequest } from "@tonconnect/ui-react";
+
+import type { TonPayload } from "@/scan/payload";
+import { parseTonAddress, toRawAddress } from "@/ton/address";
+import { CellBuilder, serializeBoc } from "@/ton/cell";
+
+/**
+ * A parsed `ton://transfer/<address>?amount=...&text=...` deep link.
+ * @see https://github.com/tonkeeper/wallet-api#unsigned-deeplinks
+ */
+export interface TonTransfer {
+  /** Recipient address exactly as written in the link. */
+  address: string;
+  /**
+   * Nanotons for TON transfers, or jetton base units when `jetton` is set. Null when the link
+   * leaves the amount to the payer.
+   */
+  amount: bigint | null;
+  /** Plain text comment. */
+  text: string | null;
+  /** Jetton master address for jetton transfers. */
+  jetton: string | null;
+  /** Base64 (url) encoded BOC payload, mutually exclusive with `text`. */
+  bin: string | null;
+  /** Base64 (url) encoded StateInit. */
+  init: string | null;
+  /** Unix timestamp after which the link should not be paid. */
+  expiresAt: number | null;
+}
+
+/**
+ * TON attached to a jetton transfer to pay for the jetton wallet fees. The excess is returned to
+ * the sender.
+ */
+const JETTON_TRANSFER_TON = 50_000_000n;
+
+/**
+ * Forwarded to the recipient with a jetton transfer so it gets a transfer notification with the
+ * comment.
+ */
+const JETTON_FORWARD_TON = 1n;
+
+const TONCENTER_URL: Record<CHAIN, string> = {
+  [CHAIN.MAINNET]: "https://toncenter.com",
+  [CHAIN.TESTNET]: "https://testnet.toncenter.com",
+};
+
+function parseUnits(value: string | undefined): bigint | null {
+  return value && /^\d+$/.test(value) ? BigInt(value) : null;
+}
+
+/**
+ * @returns The transfer described by the payload, or null if it is not a valid transfer link.
+ */
+export function parseTonTransfer(payload: TonPayload): TonTransfer | null {
+  if (payload.action !== "transfer" || !payload.address) return null;
+  if (!parseTonAddress(payload.address)) return null;
+
+  const { params } = payload;
+  if (params.jetton && !parseTonAddress(params.jetton)) return null;
+
+  const exp = parseUnits(params.exp);
+
+  return {
+    address: payload.address,
+    amount: parseUnits(params.amount),
+    text: params.text || null,
+    jetton: params.jetton || null,
+    bin: params.bin || null,
+    init: params.init || null,
+    expiresAt: exp === null ? null : Number(exp),
+  };
+}
+
+/**
+ * Formats integer base units as a decimal string, e.g. 1500000000n => "1.5".
+ */
+export function formatUnits(amount: bigint, decimals = 9): string {
+  const base = 10n ** BigInt(decimals);
+  const whole = amount / base;
+  const fraction = (amount % base)
+    .toString()
+    .padStart(decimals, "0")
+    .replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
+
+/**
+ * Parses a decimal string to integer base units, e.g. "1.5" => 1500000000n.
+ * @returns Null if the value is not a positive decimal with at most `decimals` fraction digits.
+ */
+export function parseDecimalUnits(value: string, decimals = 9): bigint | null {
+  const match = /^(\d+)(?:[.,](\d+))?$/.exec(value.trim());
+  if (!match || (match[2]?.length ?? 0) > decimals) return null;
+  return (
+    BigInt(match[1]) * 10n ** BigInt(decimals) +
+    BigInt((match[2] ?? "").padEnd(decimals, "0") || "0")
+  );
+}
+
+function base64UrlToBase64(value: string): string {
+  return value.replace(/-/g, "+").replace(/_/g, "/");
+}
+
+function commentCell(text: string) {
+  return new CellBuilder().storeUint(0, 32).storeStringTail(text).endCell();
+}
+
+/**
+ * Looks up the sender's jetton wallet for the given jetton master.
+ */
+async function fetchJettonWallet(
+  owner: string,
+  jetton: string,
+  chain: CHAIN,
+): Promise<string> {
+  const url = new URL("/api/v3/jetton/wallets", TONCENTER_URL[chain]);
+  url.searchParams.set("owner_address", owner);
+  url.searchParams.set("jetton_address", jetton);
+  url.searchParams.set("limit", "1");
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Jetton wallet lookup failed: HTTP ${response.status}`);
+  }
+  const body = (await response.json()) as {
+    jetton_wallets?: { address: string }[];
+  };
+  const wallet = body.jetton_wallets?.[0]?.address;
+  if (!wallet) {
+    throw new Error("This wallet does not hold the requested jetton.");
+  }
+  return wallet;
+}
+
+/**
+ * Builds the TON Connect request paying the transfer from the connected wallet.
+ * @param transfer - parsed transfer; `amount` must be set.
+ * @param sender - connected wallet account.
+ */
+export async function buildTransferRequest(
+  transfer: TonTransfer & { amount: bigint },
+  sender: { address: string; chain: CHAIN },
+): Promise<SendTransactionRequest> {
+  const now = Math.floor(Date.now() / 1000);
+  const validUntil = Math.min(now + 5 * 60, transfer.expiresAt ?? Infinity);
+  if (validUntil <= now) {
+    throw new Error("This payment link has expired.");
+  }
+
+  if (transfer.jetton) {
+    const recipient = parseTonAddress(transfer.address)!;
+    const owner = parseTonAddress(sender.address);
+    if (!owner) {
+      throw new Error("Connected wallet address is invalid.");
+    }
+
+    const jettonWallet = await fetchJettonWallet(
+      toRawAddress(owner),
+      transfer.jetton,
+      sender.chain,
+    );
+
+    // TEP-74 jetton transfer.
+    const body = new CellBuilder()
+      .storeUint(0x0f8a7ea5, 32)
+      .storeUint(0, 64)
+      .storeCoins(transfer.amount)
+      .storeAddress(recipient)
+      .storeAddress(owner)
+      .storeBit(0);
+
+    if (transfer.text) {
+      body
+        .storeCoins(JETTON_FORWARD_TON)
+        .storeBit(1)
+        .storeRef(commentCell(transfer.text));
+    } else {
+      body.storeCoins(0n).storeBit(0);
+    }
+
+    return {
+      validUntil,
+      network: sender.chain,
+      messages: [
+        {
+          address: jettonWallet,
+          amount: JETTON_TRANSFER_TON.toString(),
+          payload: serializeBoc(body.endCell()),
+        },
+      ],
+    };
+  }
+
+  return {
+    validUntil,
+    network: sender.chain,
+    messages: [
+      {
+        address: transfer.address,
+        amount: transfer.amount.toString(),
+        payload: transfer.bin
+          ? base64UrlToBase64(transfer.bin)
+          : transfer.text
+            ? serializeBoc(commentCell(transfer.text))
+            : undefined,
+        stateInit: transfer.init ? base64UrlToBase64(transfer.init) : undefined,
+      },
+    ],
+  };
+}
@@ -0,0 +1,65 @@
+// Helpers shared by the edge functions. The Mini App calls them from the browser, so every
+// response carries the CORS headers supabase-js needs.
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+/**
+ * A JSON response. Errors use `{ code, message }`; the app maps `code` to its own messages.
+ */
+export function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+export function errorResponse(
+  status: number,
+  code: string,
+  message: string,
+): Response {
+  return json({ code, message }, status);
+}
+
+/**
+ * A 502 response for a failed Supabase or Bot API call. The error itself is only logged, the
+ * app gets the code.
+ */
+export function upstreamError(
+  code: string,
+  message: string,
+  error: unknown,
+): Response {
+  console.error(message, error);
+  return errorResponse(502, code, message);
+}
+
+/**
+ * Answers the CORS preflight.
+ * @returns The response for an OPTIONS request, otherwise null.
+ */
+export function preflight(req: Request): Response | null {
+  return req.method === "OPTIONS"
+    ? new Response("ok", { headers: corsHeaders })
+    : null;
+}
+
+/**
+ * @returns The parsed JSON body, or null if it isn't a JSON object.
+ */
+export async function readJsonBody(
+  req: Request,
+): Promise<Record<string, unknown> | null> {
+  try {
+    const body: unknown = await req.json();
+    return typeof body === "object" && body !== null && !Array.isArray(body)
+      ? (body as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  createClient,
+  type SupabaseClient,
+  type User,
+} from "npm:@supabase/supabase-js@2";
+
+/**
+ * A client with the service role. Bypasses RLS: only use it after checking the caller.
+ */
+export function serviceClient(): SupabaseClient {
+  return createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    { auth: { persistSession: false, autoRefreshToken: false } },
+  );
+}
+
+/**
+ * @returns The signed-in user the request's bearer token belongs to, or null for the anon key,
+ * a missing or an expired token.
+ */
+export async function getCaller(
+  client: SupabaseClient,
+  req: Request,
+): Promise<User | null> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+  const { data, error } = await client.auth.getUser(token);
+  return error ? null : data.user;
+}
+
+export interface CallerProfile {
+  id: string;
+  telegram_id: number | null;
+  role: string;
+  revoked_at: string | null;
+}
+
+/**
+ * Loads a profile. Revoked profiles are returned too; callers decide.
+ */
+export async function getProfile(
+  client: SupabaseClient,
+  userId: string,
+): Promise<CallerProfile | null> {
+  const { data } = await client
+    .from("profiles")
+    .select("id, telegram_id, role, revoked_at")
+    .eq("id", userId)
+    .maybeSingle();
+  return data as CallerProfile | null;
+}
@@ -0,0 +1,72 @@
+// Validation of Mini App init data, see
+// https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+
+const encoder = new TextEncoder();
+
+async function hmacSha256(
+  key: BufferSource,
+  data: string,
+): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(data));
+}
+
+/**
+ * Compares two strings in time that depends only on their length, so the expected hash can't be
+ * guessed byte by byte from response times.
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Checks the init data hash with the bot token and rejects init data older than `maxAgeSeconds`.
+ * @returns The Telegram user id, or null if the init data is invalid, too old or has no user.
+ */
+export async function validateInitData(
+  initDataRaw: string,
+  botToken: string,
+  maxAgeSeconds: number,
+): Promise<number | null> {
+  const params = new URLSearchParams(initDataRaw);
+  const hash = params.get("hash");
+  if (!hash) return null;
+  params.delete("hash");
+
+  const dataCheckString = [...params.entries()]
+    .map(([key, value]) => `${key}=${value}`)
+    .sort()
+    .join("\n");
+  const secretKey = await hmacSha256(encoder.encode("WebAppData"), botToken);
+  const expected = toHex(await hmacSha256(secretKey, dataCheckString));
+  if (!timingSafeEqual(expected, hash)) return null;
+
+  const authDate = Number(params.get("auth_date"));
+  if (!authDate || Date.now() / 1000 - authDate > maxAgeSeconds) return null;
+
+  try {
+    const user = JSON.parse(params.get("user") ?? "null") as {
+      id?: unknown;
+    } | null;
+    return typeof user?.id === "number" ? user.id : null;
+  } catch {
+    return null;
+  }
+}
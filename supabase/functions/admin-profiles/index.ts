@@ -0,0 +1,167 @@
+// Admin console actions (see src/auth/admin.ts). Only admins may call it; every action except
+// `list` is recorded in `admin_audit_log`. The database changes and the audit row are written
+// together by `apply_admin_action`, before the Auth side of an action runs.
+//
+// Request (signed in): one of
+// - `{ action: "list" }`, responds with `{ profiles }`: id, email, telegram_id, role,
+//   last_sign_in_at and revoked_at of every profile
+// - `{ action: "unbind_telegram", profileId }` clears the bound Telegram id
+// - `{ action: "revoke_access", profileId }` sets `revoked_at`, unbinds Telegram and bans the
+//   user in Supabase Auth, so their sessions can't be refreshed
+// - `{ action: "set_role", profileId, role }`
+// - `{ action: "resend_invite", profileId }` adds the email to `login_allowlist` and emails a
+//   login code. It doesn't restore revoked access.
+// Other actions respond with `{ ok: true }`.
+//
+// Errors:
+// - 400 `{ code: "invalid_request" }`, also for admins changing their own role or access
+// - 401 `{ code: "unauthorized" }` without a valid session
+// - 403 `{ code: "forbidden" }` when the caller isn't an admin
+// - 404 `{ code: "not_found" }` for an unknown profile, or one without an email for
+//   `resend_invite`
+// - 502 `{ code: "admin_failed" }` when a database or Auth call fails. For `revoke_access` and
+//   `resend_invite` the database change is made and audited even if the Auth call fails.
+
+import {
+  errorResponse,
+  json,
+  preflight,
+  readJsonBody,
+  upstreamError,
+} from "../_shared/http.ts";
+import { getCaller, getProfile, serviceClient } from "../_shared/supabase.ts";
+
+const ACTIONS = [
+  "unbind_telegram",
+  "revoke_access",
+  "set_role",
+  "resend_invite",
+];
+const ROLES = ["admin", "staff", "viewer"];
+// Supabase Auth bans for a duration; this is as good as forever.
+const BAN_DURATION = "876000h";
+
+type Client = ReturnType<typeof serviceClient>;
+
+interface ProfileRow {
+  id: string;
+  telegram_id: number | null;
+  role: string;
+  revoked_at: string | null;
+}
+
+async function listProfiles(client: Client): Promise<Response> {
+  const { data, error } = await client
+    .from("profiles")
+    .select("id, telegram_id, role, revoked_at");
+  if (error) {
+    return upstreamError("admin_failed", "Loading profiles failed.", error);
+  }
+  const profiles = data as ProfileRow[];
+
+  const users = new Map<string, { email?: string; last_sign_in_at?: string }>();
+  for (let page = 1; ; page++) {
+    const { data, error: usersError } = await client.auth.admin.listUsers({
+      page,
+      perPage: 1000,
+    });
+    if (usersError) {
+      return upstreamError("admin_failed", "Loading users failed.", usersError);
+    }
+    for (const user of data.users) users.set(user.id, user);
+    if (data.users.length < 1000) break;
+  }
+
+  return json({
+    profiles: profiles.map((profile) => ({
+      ...profile,
+      email: users.get(profile.id)?.email ?? null,
+      last_sign_in_at: users.get(profile.id)?.last_sign_in_at ?? null,
+    })),
+  });
+}
+
+Deno.serve(async (req) => {
+  const options = preflight(req);
+  if (options) return options;
+
+  const client = serviceClient();
+  const caller = await getCaller(client, req);
+  const callerProfile = caller ? await getProfile(client, caller.id) : null;
+  if (!callerProfile || callerProfile.revoked_at) {
+    return errorResponse(401, "unauthorized", "Sign in first.");
+  }
+  if (callerProfile.role !== "admin") {
+    return errorResponse(403, "forbidden", "Only admins manage profiles.");
+  }
+
+  const body = await readJsonBody(req);
+  const action = body?.action;
+  if (action === "list") return listProfiles(client);
+
+  const profileId = body?.profileId;
+  const role = body?.role;
+  if (
+    typeof profileId !== "string" ||
+    typeof action !== "string" ||
+    !ACTIONS.includes(action)
+  ) {
+    return errorResponse(400, "invalid_request", "Unknown action.");
+  }
+  if (
+    action === "set_role" &&
+    (typeof role !== "string" || !ROLES.includes(role))
+  ) {
+    return errorResponse(400, "invalid_request", "Unknown role.");
+  }
+  // Keeps at least the caller as an admin.
+  if (
+    profileId === callerProfile.id &&
+    (action === "revoke_access" || action === "set_role")
+  ) {
+    return errorResponse(
+      400,
+      "invalid_request",
+      "Admins can't change their own role or access.",
+    );
+  }
+
+  const { data: details, error } = await client.rpc("apply_admin_action", {
+    actor: callerProfile.id,
+    action,
+    target: profileId,
+    new_role: action === "set_role" ? role : null,
+  });
+  if (error) {
+    // `no_data_found`: unknown profile, or no email to invite.
+    return error.code === "P0002"
+      ? errorResponse(404, "not_found", "Unknown profile.")
+      : upstreamError("admin_failed", "Applying the action failed.", error);
+  }
+
+  if (action === "revoke_access") {
+    const { error: banError } = await client.auth.admin.updateUserById(
+      profileId,
+      { ban_duration: BAN_DURATION },
+    );
+    if (banError) {
+      return upstreamError(
+        "admin_failed",
+        "Access was revoked, but signing the user out failed.",
+        banError,
+      );
+    }
+  } else if (action === "resend_invite") {
+    const { email } = details as { email: string };
+    const { error: otpError } = await client.auth.signInWithOtp({ email });
+    if (otpError) {
+      return upstreamError(
+        "admin_failed",
+        "The address was invited, but sending the login code failed.",
+        otpError,
+      );
+    }
+  }
+
+  return json({ ok: true });
+});
@@ -0,0 +1,64 @@
+// Emails a login code (OTP) to an address on the login allowlist.
+//
+// Request (anon key): `{ email }`.
+// Responses:
+// - 200 `{ ok: true }`
+// - 400 `{ code: "invalid_email" }`
+// - 403 `{ code: "email_not_allowed" }` when neither the address nor its domain is on
+//   `login_allowlist`
+// - 429 `{ code: "rate_limited" }` when Supabase Auth refuses to send another email yet
+// - 502 `{ code: "send_failed" }` for any other Auth error
+//
+// The codes match `LoginErrorCode` in src/auth/login.ts.
+
+import {
+  errorResponse,
+  json,
+  preflight,
+  readJsonBody,
+} from "../_shared/http.ts";
+import { serviceClient } from "../_shared/supabase.ts";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+Deno.serve(async (req) => {
+  const options = preflight(req);
+  if (options) return options;
+
+  const body = await readJsonBody(req);
+  const email =
+    typeof body?.email === "string" ? body.email.trim().toLowerCase() : "";
+  if (!EMAIL_PATTERN.test(email)) {
+    return errorResponse(400, "invalid_email", "Invalid email address.");
+  }
+
+  const client = serviceClient();
+  const { data: allowed, error: allowlistError } = await client.rpc(
+    "is_login_allowed",
+    { address: email },
+  );
+  if (allowlistError) {
+    console.error("Checking the login allowlist failed", allowlistError);
+    return errorResponse(502, "send_failed", "Checking the email failed.");
+  }
+  if (!allowed) {
+    return errorResponse(
+      403,
+      "email_not_allowed",
+      "This email is not allowed to sign in.",
+    );
+  }
+
+  const { error } = await client.auth.signInWithOtp({
+    email,
+    options: { shouldCreateUser: true },
+  });
+  if (error) {
+    if (error.status === 429) {
+      return errorResponse(429, "rate_limited", "Too many codes requested.");
+    }
+    console.error("Sending the login code failed", error);
+    return errorResponse(502, "send_failed", "Sending the code failed.");
+  }
+  return json({ ok: true });
+});
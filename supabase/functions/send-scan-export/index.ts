@@ -0,0 +1,77 @@
+// Sends a scan history export to the caller's chat with the bot as a document.
+//
+// Request (signed in): `{ fileName, mimeType, content, count }`, as built by src/scan/export.ts.
+// Responses:
+// - 200 `{ ok: true }`
+// - 400 `{ code: "invalid_request" }` for a missing field or a file over the size limit
+// - 401 `{ code: "unauthorized" }` without a valid session, or for a revoked profile
+// - 403 `{ code: "forbidden" }` for viewers, who may not export (see src/auth/roles.ts)
+// - 409 `{ code: "not_bound" }` when the profile has no bound Telegram account
+// - 502 `{ code: "send_failed" }` when the Bot API refuses the document
+//
+// Needs the `TELEGRAM_BOT_TOKEN` secret.
+
+import {
+  errorResponse,
+  json,
+  preflight,
+  readJsonBody,
+} from "../_shared/http.ts";
+import { getCaller, getProfile, serviceClient } from "../_shared/supabase.ts";
+
+// The Bot API accepts up to 50 MB; exports are far smaller, anything above this is a bug.
+const MAX_CONTENT_LENGTH = 10 * 1024 * 1024;
+
+Deno.serve(async (req) => {
+  const options = preflight(req);
+  if (options) return options;
+
+  const client = serviceClient();
+  const user = await getCaller(client, req);
+  const profile = user ? await getProfile(client, user.id) : null;
+  if (!profile || profile.revoked_at) {
+    return errorResponse(401, "unauthorized", "Sign in first.");
+  }
+  if (profile.role !== "admin" && profile.role !== "staff") {
+    return errorResponse(403, "forbidden", "Exporting needs the staff role.");
+  }
+  if (profile.telegram_id === null) {
+    return errorResponse(
+      409,
+      "not_bound",
+      "No Telegram account is bound to the profile.",
+    );
+  }
+
+  const body = await readJsonBody(req);
+  const { fileName, mimeType, content, count } = body ?? {};
+  if (
+    typeof fileName !== "string" ||
+    typeof mimeType !== "string" ||
+    typeof content !== "string" ||
+    typeof count !== "number" ||
+    content.length > MAX_CONTENT_LENGTH
+  ) {
+    return errorResponse(400, "invalid_request", "Invalid export.");
+  }
+
+  const form = new FormData();
+  form.append("chat_id", String(profile.telegram_id));
+  form.append("caption", `${count} ${count === 1 ? "scan" : "scans"}`);
+  form.append("document", new Blob([content], { type: mimeType }), fileName);
+
+  const token = Deno.env.get("TELEGRAM_BOT_TOKEN")!;
+  const response = await fetch(
+    `https://api.telegram.org/bot${token}/sendDocument`,
+    { method: "POST", body: form },
+  );
+  if (!response.ok) {
+    console.error(
+      "sendDocument failed",
+      response.status,
+      await response.text(),
+    );
+    return errorResponse(502, "send_failed", "Sending the document failed.");
+  }
+  return json({ ok: true });
+});
@@ -0,0 +1,108 @@
+// Signs in the profile bound to the Telegram user of the init data, so an expired session doesn't
+// need another email code.
+//
+// Request (anon key): `{ initData }`, the raw init data of the Mini App.
+// Responses:
+// - 200 `{ access_token, refresh_token }`
+// - 401 `{ code: "invalid_init_data" }` for a bad signature or init data that is too old
+// - 403 `{ code: "revoked" }` when the bound profile's access was revoked
+// - 404 `{ code: "not_bound" }` when no profile is bound to the Telegram user
+// - 502 `{ code: "login_failed" }` when looking up the profile or creating the session fails
+//
+// Needs the `TELEGRAM_BOT_TOKEN` secret.
+
+import {
+  errorResponse,
+  json,
+  preflight,
+  readJsonBody,
+  upstreamError,
+} from "../_shared/http.ts";
+import { serviceClient } from "../_shared/supabase.ts";
+import { validateInitData } from "../_shared/telegram.ts";
+
+// Init data is signed when the Mini App opens; a day covers a long-running session.
+const MAX_INIT_DATA_AGE_SECONDS = 24 * 60 * 60;
+
+Deno.serve(async (req) => {
+  const options = preflight(req);
+  if (options) return options;
+
+  const body = await readJsonBody(req);
+  const telegramId =
+    typeof body?.initData === "string"
+      ? await validateInitData(
+          body.initData,
+          Deno.env.get("TELEGRAM_BOT_TOKEN")!,
+          MAX_INIT_DATA_AGE_SECONDS,
+        )
+      : null;
+  if (telegramId === null) {
+    return errorResponse(401, "invalid_init_data", "Invalid init data.");
+  }
+
+  const client = serviceClient();
+  const { data: profile, error: profileError } = await client
+    .from("profiles")
+    .select("id, revoked_at")
+    .eq("telegram_id", telegramId)
+    .maybeSingle();
+  if (profileError) {
+    return upstreamError(
+      "login_failed",
+      "Looking up the profile failed.",
+      profileError,
+    );
+  }
+  if (!profile) {
+    return errorResponse(
+      404,
+      "not_bound",
+      "No profile is bound to this Telegram account.",
+    );
+  }
+  if (profile.revoked_at) {
+    return errorResponse(403, "revoked", "Access was revoked.");
+  }
+
+  // Supabase Auth can't issue a session for a user id directly: generate a magic link for the
+  // profile's email and redeem its token right away. Nothing is emailed.
+  const { data: user, error: userError } = await client.auth.admin.getUserById(
+    profile.id,
+  );
+  if (userError || !user.user.email) {
+    return upstreamError(
+      "login_failed",
+      "Loading the user failed.",
+      userError ?? "The user has no email.",
+    );
+  }
+  const { data: link, error: linkError } =
+    await client.auth.admin.generateLink({
+      type: "magiclink",
+      email: user.user.email,
+    });
+  if (linkError) {
+    return upstreamError(
+      "login_failed",
+      "Generating the login link failed.",
+      linkError,
+    );
+  }
+  const { data: auth, error: verifyError } = await client.auth.verifyOtp({
+    type: "magiclink",
+    token_hash: link.properties.hashed_token,
+  });
+  if (verifyError || !auth.session) {
+    return upstreamError(
+      "login_failed",
+      "Redeeming the login link failed.",
+      verifyError ?? "No session.",
+    );
+  }
+
+  return json({
+    access_token: auth.session.access_token,
+    refresh_token: auth.session.refresh_token,
+  });
+});
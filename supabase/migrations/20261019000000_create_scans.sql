@@ -0,0 +1,27 @@
+-- Scan history. One row per captured QR payload, owned by the `profiles` row of the
+-- signed-in user (profiles.id = auth.users.id).
+create table if not exists public.scans (
+  id uuid primary key default gen_random_uuid(),
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  telegram_id bigint,
+  payload text not null,
+  payload_type text not null,
+  scanned_at timestamptz not null default now()
+);
+
+create index if not exists scans_profile_scanned_at_idx
+  on public.scans (profile_id, scanned_at desc);
+
+alter table public.scans enable row level security;
+
+create policy "Users read their own scans"
+  on public.scans for select
+  using (profile_id = auth.uid());
+
+create policy "Users insert their own scans"
+  on public.scans for insert
+  with check (profile_id = auth.uid());
+
+create policy "Users delete their own scans"
+  on public.scans for delete
+  using (profile_id = auth.uid());
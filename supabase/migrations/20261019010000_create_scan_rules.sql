@@ -0,0 +1,56 @@
+-- Scan action rules. After a scan the client runs the action of the first enabled rule (by
+-- position) whose conditions all match the payload. Null conditions match anything.
+create table if not exists public.scan_rules (
+  id uuid primary key default gen_random_uuid(),
+  position integer not null,
+  name text not null,
+  enabled boolean not null default true,
+  -- Payload types from classifyPayload(), e.g. {url,telegram}.
+  payload_types text[],
+  -- JavaScript regular expression tested against the raw payload.
+  pattern text,
+  -- Link hosts; a host also matches its subdomains.
+  hosts text[],
+  action text not null
+    check (action in ('open_link', 'invoke_function', 'copy', 'navigate', 'show')),
+  -- Edge function name for invoke_function, route for navigate.
+  target text,
+  created_at timestamptz not null default now(),
+  check (action not in ('invoke_function', 'navigate') or target is not null)
+);
+
+create index if not exists scan_rules_position_idx on public.scan_rules (position);
+
+alter table public.scan_rules enable row level security;
+
+create policy "Signed-in users read scan rules"
+  on public.scan_rules for select
+  to authenticated
+  using (true);
+
+-- One row per action run after a scan.
+create table if not exists public.scan_action_log (
+  id uuid primary key default gen_random_uuid(),
+  profile_id uuid not null references public.profiles (id) on delete cascade,
+  -- Null for the built-in default rules.
+  rule_id uuid references public.scan_rules (id) on delete set null,
+  rule_name text not null,
+  action text not null,
+  payload_type text not null,
+  status text not null check (status in ('ok', 'failed')),
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists scan_action_log_profile_created_at_idx
+  on public.scan_action_log (profile_id, created_at desc);
+
+alter table public.scan_action_log enable row level security;
+
+create policy "Users read their own action log"
+  on public.scan_action_log for select
+  using (profile_id = auth.uid());
+
+create policy "Users insert their own action log"
+  on public.scan_action_log for insert
+  with check (profile_id = auth.uid());
@@ -0,0 +1,57 @@
+-- Event check-in. Tickets are signed offline by the organizer (see src/checkin/ticket.ts);
+-- the app only needs each event's public key to verify them at the door.
+create table if not exists public.events (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  -- Base64 encoded raw Ed25519 public key (32 bytes).
+  ticket_public_key text not null,
+  created_at timestamptz not null default now()
+);
+
+-- Issued tickets. Used for attendee names and revocation; a ticket with a valid signature is
+-- admitted even if it is missing here.
+create table if not exists public.event_tickets (
+  event_id uuid not null references public.events (id) on delete cascade,
+  attendee_id text not null,
+  attendee_name text,
+  revoked boolean not null default false,
+  primary key (event_id, attendee_id)
+);
+
+create table if not exists public.event_checkins (
+  id uuid primary key default gen_random_uuid(),
+  -- Generated on the device so retried uploads of the same check-in are idempotent.
+  client_id uuid not null unique,
+  event_id uuid not null references public.events (id) on delete cascade,
+  attendee_id text not null,
+  checked_in_at timestamptz not null,
+  checked_in_by uuid not null references public.profiles (id),
+  -- An attendee can only be checked in once, whichever door scanned them first.
+  unique (event_id, attendee_id)
+);
+
+alter table public.events enable row level security;
+alter table public.event_tickets enable row level security;
+alter table public.event_checkins enable row level security;
+
+create policy "Signed-in users read events"
+  on public.events for select
+  to authenticated
+  using (true);
+
+create policy "Signed-in users read tickets"
+  on public.event_tickets for select
+  to authenticated
+  using (true);
+
+create policy "Signed-in users read check-ins"
+  on public.event_checkins for select
+  to authenticated
+  using (true);
+
+create policy "Users record their own check-ins"
+  on public.event_checkins for insert
+  to authenticated
+  with check (checked_in_by = auth.uid());
@@ -0,0 +1,7 @@
+-- Scans are queued on the device and uploaded later (see src/scan/queue.ts). The id generated
+-- on the device makes the upload idempotent: retrying an upload whose response was lost does
+-- not create a second row.
+alter table public.scans add column if not exists client_id uuid;
+
+create unique index if not exists scans_profile_client_id_idx
+  on public.scans (profile_id, client_id);
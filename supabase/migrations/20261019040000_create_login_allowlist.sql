@@ -0,0 +1,60 @@
+-- Who may sign in. An email is allowed if its domain is listed, or if the address itself is
+-- (invites from outside the allowed domains). The `request-login-code` edge function checks
+-- this before sending the OTP.
+create table if not exists public.login_allowlist (
+  id uuid primary key default gen_random_uuid(),
+  -- Exactly one of domain and email is set, both lower case.
+  domain text unique check (domain = lower(domain)),
+  email text unique check (email = lower(email)),
+  note text,
+  created_at timestamptz not null default now(),
+  check ((domain is null) <> (email is null))
+);
+
+alter table public.login_allowlist enable row level security;
+
+-- The login screen shows the allowed domains as a hint. Invited addresses stay private.
+create policy "Anyone reads allowed domains"
+  on public.login_allowlist for select
+  to anon, authenticated
+  using (domain is not null);
+
+insert into public.login_allowlist (domain, note)
+values ('favoritemedium.com', 'Previously hardcoded in the login screen')
+on conflict (domain) do nothing;
+
+create or replace function public.is_login_allowed(address text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.login_allowlist
+    where email = lower(trim(address))
+      or domain = split_part(lower(trim(address)), '@', 2)
+  );
+$$;
+
+-- Also blocks sign-ups that bypass the edge function (e.g. calling the Auth API directly).
+create or replace function public.enforce_login_allowlist()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.email is null or not public.is_login_allowed(new.email) then
+    raise exception 'Email % is not on the login allowlist', new.email
+      using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_login_allowlist on auth.users;
+create trigger enforce_login_allowlist
+  before insert on auth.users
+  for each row execute function public.enforce_login_allowlist();
@@ -0,0 +1,67 @@
+-- Roles for access control in the app (see src/auth/roles.ts). New profiles start as viewers;
+-- profiles that existed before roles keep the access they had as staff. The backfill only
+-- touches rows without a role, so running this again doesn't promote viewers.
+alter table public.profiles
+  add column if not exists role text
+    check (role in ('admin', 'staff', 'viewer'));
+
+update public.profiles set role = 'staff' where role is null;
+
+alter table public.profiles
+  alter column role set default 'viewer',
+  alter column role set not null;
+
+-- The signed-in user's role, for use in policies.
+create or replace function public.profile_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid();
+$$;
+
+-- Users can't promote themselves: roles only change through the admin edge function, which runs
+-- with the service role.
+create or replace function public.protect_profile_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.role is distinct from old.role
+    and auth.role() <> 'service_role' then
+    raise exception 'Roles are changed by the admin edge function only'
+      using errcode = 'insufficient_privilege';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_profile_role on public.profiles;
+create trigger protect_profile_role
+  before update on public.profiles
+  for each row execute function public.protect_profile_role();
+
+-- The role rules of the app, for requests that go to the REST API directly. Viewers keep reading
+-- their own history and check-ins; exporting to the chat is checked by `send-scan-export`.
+drop policy if exists "Users delete their own scans" on public.scans;
+drop policy if exists "Staff delete their own scans" on public.scans;
+create policy "Staff delete their own scans"
+  on public.scans for delete
+  using (
+    profile_id = auth.uid()
+    and public.profile_role() in ('admin', 'staff')
+  );
+
+drop policy if exists "Users record their own check-ins" on public.event_checkins;
+drop policy if exists "Staff record their own check-ins" on public.event_checkins;
+create policy "Staff record their own check-ins"
+  on public.event_checkins for insert
+  to authenticated
+  with check (
+    checked_in_by = auth.uid()
+    and public.profile_role() in ('admin', 'staff')
+  );
@@ -0,0 +1,153 @@
+-- Admin console (see src/auth/admin.ts). Admin actions run in the `admin-profiles` edge
+-- function with the service role, never as direct table writes from the app, and each one is
+-- recorded here.
+
+-- Set when an admin revokes access. The app and `telegram-login` refuse revoked profiles, and
+-- the policies below stop their existing sessions from reading or writing data.
+alter table public.profiles add column if not exists revoked_at timestamptz;
+
+-- Whether the signed-in user's access isn't revoked, for use in policies.
+create or replace function public.profile_active()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles where id = auth.uid() and revoked_at is null
+  );
+$$;
+
+-- Revoked profiles have no role, which closes every role-based policy.
+create or replace function public.profile_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid() and revoked_at is null;
+$$;
+
+-- Roles, access and Telegram bindings only change through the edge functions, which run with
+-- the service role: binding in `connect-telegram`, everything else in the audited
+-- `admin-profiles`. Nobody changes them with a direct update, admins included.
+create or replace function public.protect_profile_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() <> 'service_role'
+    and (new.role is distinct from old.role
+      or new.revoked_at is distinct from old.revoked_at
+      or new.telegram_id is distinct from old.telegram_id) then
+    raise exception 'Roles, access and Telegram bindings are changed by edge functions only'
+      using errcode = 'insufficient_privilege';
+  end if;
+  return new;
+end;
+$$;
+
+-- Deleting scans and recording check-ins already need a role, see profile_role() above.
+alter policy "Users read their own scans" on public.scans
+  using (profile_id = auth.uid() and public.profile_active());
+alter policy "Users insert their own scans" on public.scans
+  with check (profile_id = auth.uid() and public.profile_active());
+alter policy "Signed-in users read scan rules" on public.scan_rules
+  using (public.profile_active());
+alter policy "Users read their own action log" on public.scan_action_log
+  using (profile_id = auth.uid() and public.profile_active());
+alter policy "Users insert their own action log" on public.scan_action_log
+  with check (profile_id = auth.uid() and public.profile_active());
+alter policy "Signed-in users read events" on public.events
+  using (public.profile_active());
+alter policy "Signed-in users read tickets" on public.event_tickets
+  using (public.profile_active());
+alter policy "Signed-in users read check-ins" on public.event_checkins
+  using (public.profile_active());
+
+create table if not exists public.admin_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid not null references public.profiles (id),
+  action text not null
+    check (action in ('unbind_telegram', 'revoke_access', 'set_role', 'resend_invite')),
+  target_id uuid references public.profiles (id) on delete set null,
+  -- Action specific values, e.g. the previous and new role.
+  details jsonb not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_created_at_idx
+  on public.admin_audit_log (created_at desc);
+
+alter table public.admin_audit_log enable row level security;
+
+-- Inserts only come from the edge function (service role).
+create policy "Admins read the audit log"
+  on public.admin_audit_log for select
+  to authenticated
+  using (public.profile_role() = 'admin');
+
+-- Applies an admin action's database changes and records it in one transaction, so no change
+-- goes unaudited. Called by `admin-profiles` only; the Auth side (banning, emailing a login
+-- code) runs there afterwards.
+-- Returns the audit details.
+create or replace function public.apply_admin_action(
+  actor uuid,
+  action text,
+  target uuid,
+  new_role text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target_profile public.profiles%rowtype;
+  target_email text;
+  details jsonb;
+begin
+  select * into target_profile from public.profiles where id = target for update;
+  if not found then
+    raise exception 'Unknown profile %', target using errcode = 'no_data_found';
+  end if;
+
+  case action
+    when 'unbind_telegram' then
+      update public.profiles set telegram_id = null where id = target;
+      details := jsonb_build_object('telegram_id', target_profile.telegram_id);
+    when 'revoke_access' then
+      update public.profiles
+        set revoked_at = now(), telegram_id = null
+        where id = target;
+      details := jsonb_build_object('telegram_id', target_profile.telegram_id);
+    when 'set_role' then
+      update public.profiles set role = new_role where id = target;
+      details := jsonb_build_object('from', target_profile.role, 'to', new_role);
+    when 'resend_invite' then
+      select lower(email) into target_email from auth.users where id = target;
+      if target_email is null then
+        raise exception 'Profile % has no email', target
+          using errcode = 'no_data_found';
+      end if;
+      insert into public.login_allowlist (email, note)
+      values (target_email, 'Invited from the admin console')
+      on conflict (email) do nothing;
+      details := jsonb_build_object('email', target_email);
+    else
+      raise exception 'Unknown admin action %', action
+        using errcode = 'invalid_parameter_value';
+  end case;
+
+  insert into public.admin_audit_log (actor_id, action, target_id, details)
+  values (actor, action, target, details);
+  return details;
+end;
+$$;
+
+revoke execute on function public.apply_admin_action(uuid, text, uuid, text)
+  from public, anon, authenticated;
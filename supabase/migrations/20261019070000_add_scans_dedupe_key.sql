@@ -0,0 +1,7 @@
+-- The normalized payload the app compares to detect repeated scans (see src/scan/dedupe.ts), so
+-- the same code scanned on another device counts as a duplicate even if it was written with
+-- different casing or tracking parameters. Null for scans uploaded before it was recorded.
+alter table public.scans add column if not exists dedupe_key text;
+
+create index if not exists scans_profile_dedupe_key_idx
+  on public.scans (profile_id, dedupe_key, scanned_at desc);